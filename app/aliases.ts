@@ -0,0 +1,173 @@
+/**
+ * Aliases Module
+ *
+ * The alias table plus the alias/unalias builtins. Aliases are expanded by
+ * the parser, which replaces the first word of a simple command with its
+ * alias' value and reads that value as if it had been typed.
+ *
+ * Expansion rules (as in bash):
+ * - Only unquoted words in command position are expanded, so `\ls` and
+ *   `'ls'` run the real command
+ * - An alias is not expanded again inside its own value, so
+ *   `alias ls='ls -F'` does not loop
+ * - A value ending in a blank also expands the word after it, as in
+ *   `alias sudo='sudo '`
+ * - Aliases are expanded only while the expand_aliases shell option is on,
+ *   which is the default for interactive shells
+ *
+ * Commands supported:
+ * - alias, alias -p: List aliases in a form that can be re-read by the shell
+ * - alias NAME...: Show the given aliases
+ * - alias NAME=value...: Define aliases
+ * - unalias NAME...: Remove aliases
+ * - unalias -a: Remove all aliases
+ */
+
+import { Observable } from "rxjs";
+import { map, concatMap } from "rxjs/operators";
+import { getOption } from "./options";
+import { writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+// Defined aliases, keyed by name
+const aliases = new Map<string, string>();
+
+// Characters an alias name cannot contain
+const INVALID_NAME_PATTERN = /[\s/$`=\\'"|&;()<>]/;
+
+/**
+ * Looks up an alias.
+ *
+ * @param name - Alias name
+ * @returns The alias' value, or undefined if no such alias is defined
+ */
+export function getAlias(name: string): string | undefined {
+  return aliases.get(name);
+}
+
+/**
+ * Looks up an alias for expansion by the parser.
+ *
+ * @param name - First word of a command, as typed
+ * @returns The alias' value, or undefined if the word is not expanded
+ */
+export function findExpandableAlias(name: string): string | undefined {
+  return getOption("expand_aliases") ? aliases.get(name) : undefined;
+}
+
+/**
+ * Lists the defined alias names.
+ *
+ * @returns Alias names in sorted order
+ */
+export function getAliasNames(): string[] {
+  return [...aliases.keys()].sort();
+}
+
+/**
+ * Copies the alias table, so that a subshell's aliases can be undone.
+ *
+ * @returns A snapshot for restoreAliases
+ */
+export function snapshotAliases(): Map<string, string> {
+  return new Map(aliases);
+}
+
+/**
+ * Puts back the aliases as they were when a snapshot was taken.
+ *
+ * @param snapshot - Snapshot from snapshotAliases
+ */
+export function restoreAliases(snapshot: Map<string, string>): void {
+  aliases.clear();
+  snapshot.forEach((value, name) => aliases.set(name, value));
+}
+
+/**
+ * Formats an alias as the alias builtin lists it.
+ *
+ * @example
+ * formatAlias("ll", "ls -l")   // "alias ll='ls -l'"
+ */
+function formatAlias(name: string, value: string): string {
+  return `alias ${name}='${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Executes the alias builtin.
+ * Supports: alias, alias -p, alias NAME..., alias NAME=value...
+ *
+ * @param args - Command arguments (excluding 'alias' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeAliasCommand$(args: string[], io: CommandIO): Observable<number> {
+  const operands = args.filter(arg => arg !== "-p");
+  const lines: string[] = [];
+  const errors: string[] = [];
+
+  if (operands.length === 0) {
+    lines.push(...getAliasNames().map(name => `${formatAlias(name, aliases.get(name) ?? "")}\n`));
+  }
+
+  for (const arg of operands) {
+    const separator = arg.indexOf("=");
+
+    if (separator === -1) {
+      const value = aliases.get(arg);
+
+      if (value === undefined) {
+        errors.push(`alias: ${arg}: not found\n`);
+      } else {
+        lines.push(`${formatAlias(arg, value)}\n`);
+      }
+
+      continue;
+    }
+
+    const name = arg.slice(0, separator);
+
+    if (name === "" || INVALID_NAME_PATTERN.test(name)) {
+      errors.push(`alias: \`${name}': invalid alias name\n`);
+
+      continue;
+    }
+
+    aliases.set(name, arg.slice(separator + 1));
+  }
+
+  return writeLines$(io.stdout, lines).pipe(
+    concatMap(() => writeLines$(io.stderr, errors)),
+    map(() => errors.length > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Executes the unalias builtin.
+ * Supports: unalias NAME..., unalias -a
+ *
+ * @param args - Command arguments (excluding 'unalias' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeUnaliasCommand$(args: string[], io: CommandIO): Observable<number> {
+  const errors: string[] = [];
+
+  if (args.includes("-a")) {
+    aliases.clear();
+  }
+
+  const names = args.filter(arg => arg !== "-a");
+
+  if (names.length === 0 && !args.includes("-a")) {
+    errors.push("unalias: usage: unalias [-a] name [name ...]\n");
+  }
+
+  for (const name of names) {
+    if (!aliases.delete(name)) {
+      errors.push(`unalias: ${name}: not found\n`);
+    }
+  }
+
+  return writeLines$(io.stderr, errors).pipe(map(() => errors.length > 0 ? 1 : 0));
+}
@@ -4,22 +4,86 @@
  * Reactive implementations of shell builtin commands and PATH resolution.
  * 
  * Builtin commands:
- * - echo: Output text with stream-based redirection
- * - type: Command identification with async PATH search
+ * - echo: Output text
+ * - type: Command identification via PATH search
+ * - pwd/cd: Working directory
+ * - exit: Leave the shell
+ * - shift [n]: Drop the first n positional parameters
+ * - source/.: Delegated to script module, run by the executor
+ * - return/unset -f: Delegated to functions module
+ * - break/continue: Delegated to interpreter module
  * - history: Delegated to history module
+ * - fc: Delegated to fc module, run by the executor
+ * - bind: Delegated to editor module
+ * - export/unset/local: Delegated to variables module
+ * - shopt/set: Delegated to options module
+ * - alias/unalias: Delegated to aliases module
+ * - complete/compgen: Delegated to completion module
+ * - hash: Delegated to hash module
+ * - jobs/fg/bg/wait: Delegated to jobs module
+ * 
+ * Every builtin reads from io.stdin and writes to io.stdout and io.stderr,
+ * so it can take part in a pipeline like any external command: its output
+ * streams to the next stage as it is written, with backpressure.
  * 
  * External commands:
- * - findCommand: Synchronous PATH search for immediate results
- * - findCommand$: Asynchronous PATH search with observables
+ * - findCommand: PATH search for immediate results
+ * - findCommand$: PATH search with observables
+ * Both go through the hash module's index of the PATH directories.
  * 
  * All functions return observables for consistent reactive patterns.
  */
 
-import { promises as fs } from "node:fs";
-import path from "node:path";
-import { Observable, of, from } from "rxjs";
-import { map, switchMap, catchError, mergeMap, filter } from "rxjs/operators";
+import { Observable, of, defer } from "rxjs";
+import { map } from "rxjs/operators";
 import { executeHistoryCommand$ } from "./history";
+import { executeExportCommand$, executeUnsetCommand$, executeLocalCommand$, getVariable, setVariable } from "./variables";
+import { getAlias, executeAliasCommand$, executeUnaliasCommand$ } from "./aliases";
+import { getFunction, formatFunction, executeReturnCommand$, executeUnsetFunctionCommand$ } from "./functions";
+import { executeShoptCommand$, executeSetCommand$ } from "./options";
+import { executeCompleteCommand$, executeCompgenCommand$ } from "./completion";
+import { executeBindCommand$ } from "./editor";
+import { lookupCommand, getHashedCommand, executeHashCommand$ } from "./hash";
+import { executeJobsCommand$, executeFgCommand$, executeBgCommand$, executeWaitCommand$ } from "./jobs";
+import { executeLoopControl$ } from "./interpreter";
+import { getLastExitStatus } from "./status";
+import { getPositionalParameters, setPositionalParameters } from "./parameters";
+import { write$ } from "./io";
+import type { CommandIO } from "./io";
+import type { CommandResult } from "./executor";
+
+/**
+ * A builtin command: takes its arguments (excluding its own name) and
+ * streams, and emits its exit status once it has finished writing.
+ */
+export type Builtin = (args: string[], io: CommandIO) => Observable<number>;
+
+// Builtins that need nothing but their arguments and streams, keyed by name
+const builtins: Record<string, Builtin> = {
+  echo: executeEchoCommand$,
+  pwd: executePwdCommand$,
+  cd: executeCdCommand$,
+  shift: executeShiftCommand$,
+  type: executeTypeCommand$,
+  export: executeExportCommand$,
+  unset: executeUnset$,
+  local: executeLocalCommand$,
+  shopt: executeShoptCommand$,
+  set: executeSetCommand$,
+  alias: executeAliasCommand$,
+  unalias: executeUnaliasCommand$,
+  complete: executeCompleteCommand$,
+  compgen: (args, io) => executeCompgenCommand$(args, io, { builtinNames: getBuiltinNames }),
+  hash: executeHashCommand$,
+  bind: executeBindCommand$,
+  jobs: executeJobsCommand$,
+  fg: executeFgCommand$,
+  bg: executeBgCommand$,
+  wait: executeWaitCommand$
+};
+
+// Builtins that need more than their arguments and streams, run by executeBuiltin$ or the executor
+const DISPATCHED_BUILTINS = ["exit", "history", "fc", "break", "continue", "return", "source", "."];
 
 /**
  * Checks if a command is a shell builtin.
@@ -28,90 +92,191 @@ import { executeHistoryCommand$ } from "./history";
  * @returns True if the command is a builtin, false otherwise
  */
 export function isBuiltin(cmd: string): boolean {
-  return ["echo", "exit", "type", "pwd", "cd", "history"].includes(cmd);
+  return DISPATCHED_BUILTINS.includes(cmd) || Object.hasOwn(builtins, cmd);
 }
 
 /**
- * Finds an external command in the system PATH asynchronously.
+ * Lists the names of all builtins, for completion.
+ *
+ * @returns Builtin names in sorted order
+ */
+export function getBuiltinNames(): string[] {
+  return [...DISPATCHED_BUILTINS, ...Object.keys(builtins)].sort();
+}
+
+/**
+ * Finds an external command in the system PATH.
  * 
  * @param cmd - The command name to search for
- * @returns Observable of full path to the command if found, null otherwise
+ * @returns Full path to the command if found, null otherwise
  */
 export function findCommand(cmd: string): string | null {
-  const pathDirs = process.env.PATH?.split(path.delimiter) || [];
-
-  for (const dir of pathDirs) {
-    const fullPath = path.join(dir, cmd);
-
-    try {
-      const stats = require("fs").statSync(fullPath);
-
-      if (stats.isFile() && (stats.mode & 0o111)) {
-        return fullPath;
-      }
-    } catch {}
-  }
-  return null;
+  return lookupCommand(cmd);
 }
 
+/**
+ * Finds an external command in the system PATH as an observable.
+ * 
+ * @param cmd - The command name to search for
+ * @returns Observable of full path to the command if found, null otherwise
+ */
 export function findCommand$(cmd: string): Observable<string | null> {
-  const pathDirs = process.env.PATH?.split(path.delimiter) || [];
-
-  return from(pathDirs).pipe(
-    mergeMap(dir => {
-      const fullPath = path.join(dir, cmd);
-
-      return from(fs.stat(fullPath)).pipe(
-        map(stats => {
-          if (stats.isFile() && (stats.mode & 0o111)) {
-            return fullPath;
-          }
-
-          return null;
-        }),
-        catchError(() => of(null))
-      );
-    }),
-    filter(result => result !== null),
-    map(result => result as string)
-  ).pipe(
-    switchMap(result => of(result)),
-    catchError(() => of(null))
-  );
+  return defer(() => of(lookupCommand(cmd)));
 }
 
 /**
- * Executes a builtin command asynchronously and returns the result.
+ * Executes a builtin command with the given streams.
  * 
  * @param cmd - Array containing the command and its arguments
  * @param commandHistory - Array of previously executed commands
  * @param lastAppendedIndex - Index tracking last appended history entry
- * @returns Observable containing the command output and updated append index
+ * @param io - The builtin's standard streams
+ * @returns Observable with the updated append index and exit status
  */
-export function executeBuiltin$(cmd: string[], commandHistory: string[], lastAppendedIndex: number): Observable<{ result: string, newLastAppendedIndex: number }> {
-  const command = cmd[0];
+export function executeBuiltin$(
+  cmd: string[],
+  commandHistory: string[],
+  lastAppendedIndex: number,
+  io: CommandIO
+): Observable<CommandResult> {
+  const [command, ...args] = cmd;
   
-  if (command === "echo") {
-    return of({ result: `${cmd.slice(1).join(" ")}\n`, newLastAppendedIndex: lastAppendedIndex });
-  } else if (command === "history") {
-    return executeHistoryCommand$(cmd.slice(1), commandHistory, lastAppendedIndex);
-  } else if (command === "type") {
-    const targetCommand = cmd[1];
-
-    if (isBuiltin(targetCommand)) {
-      return of({ result: `${targetCommand} is a shell builtin\n`, newLastAppendedIndex: lastAppendedIndex });
-    } else {
-      return findCommand$(targetCommand).pipe(
-        map(fullPath => {
-          if (fullPath) {
-            return { result: `${targetCommand} is ${fullPath}\n`, newLastAppendedIndex: lastAppendedIndex };
-          } else {
-            return { result: `${targetCommand}: not found\n`, newLastAppendedIndex: lastAppendedIndex };
-          }
-        })
+  if (command === "exit") {
+    // A status that is not a number still exits, as in bash
+    if (args[0] !== undefined && !/^-?[0-9]+$/.test(args[0])) {
+      return write$(io.stderr, `exit: ${args[0]}: numeric argument required\n`).pipe(
+        map(() => ({ newLastAppendedIndex: lastAppendedIndex, exitCode: 2, shouldExit: true }))
       );
     }
+
+    // Without an argument, exit with the status of the last command
+    const exitCode = args[0] !== undefined ? parseInt(args[0], 10) & 0xff : getLastExitStatus();
+
+    return of({ newLastAppendedIndex: lastAppendedIndex, exitCode, shouldExit: true });
+  }
+  
+  if (command === "history") {
+    return executeHistoryCommand$(args, io, commandHistory, lastAppendedIndex);
+  }
+
+  if (command === "return") {
+    return executeReturnCommand$(args, io).pipe(
+      map(result => ({ ...result, newLastAppendedIndex: lastAppendedIndex }))
+    );
+  }
+
+  if (command === "break" || command === "continue") {
+    return executeLoopControl$(command, args, io).pipe(
+      map(result => ({ ...result, newLastAppendedIndex: lastAppendedIndex }))
+    );
   }
   
-  return of({ result: "", newLastAppendedIndex: lastAppendedIndex });
+  return builtins[command](args, io).pipe(
+    map(exitCode => ({ newLastAppendedIndex: lastAppendedIndex, exitCode }))
+  );
+}
+
+function executeEchoCommand$(args: string[], io: CommandIO): Observable<number> {
+  return write$(io.stdout, `${args.join(" ")}\n`).pipe(map(() => 0));
+}
+
+function executePwdCommand$(args: string[], io: CommandIO): Observable<number> {
+  return write$(io.stdout, `${process.cwd()}\n`).pipe(map(() => 0));
+}
+
+/**
+ * Executes the cd builtin.
+ * Supports: cd (to $HOME), cd -, cd DIR. Tilde is expanded earlier.
+ */
+function executeCdCommand$(args: string[], io: CommandIO): Observable<number> {
+  return defer(() => {
+    const targetDir = args[0] === undefined ? getVariable("HOME") || ""
+      : args[0] === "-" ? getVariable("OLDPWD") || "" : args[0];
+    const previousDir = process.cwd();
+
+    try {
+      process.chdir(targetDir);
+    } catch {
+      return write$(io.stderr, `cd: ${args[0] ?? targetDir}: No such file or directory\n`).pipe(map(() => 1));
+    }
+
+    setVariable("OLDPWD", previousDir);
+    setVariable("PWD", process.cwd());
+
+    // "cd -" prints the directory it switched to
+    return write$(io.stdout, args[0] === "-" ? `${process.cwd()}\n` : "").pipe(map(() => 0));
+  });
+}
+
+/**
+ * Executes the shift builtin.
+ * Supports: shift (drops $1), shift N. Fails without shifting when there
+ * are fewer than N parameters.
+ */
+function executeShiftCommand$(args: string[], io: CommandIO): Observable<number> {
+  return defer(() => {
+    const countText = args[0] ?? "1";
+    const parameters = getPositionalParameters();
+
+    if (!/^[0-9]+$/.test(countText)) {
+      const message = /^-[0-9]+$/.test(countText) ? "shift count out of range" : "numeric argument required";
+
+      return write$(io.stderr, `shift: ${countText}: ${message}\n`).pipe(map(() => 1));
+    }
+
+    const count = Number(countText);
+
+    // Like bash, shifting past the last parameter fails silently
+    if (count > parameters.length) {
+      return of(1);
+    }
+
+    setPositionalParameters(parameters.slice(count));
+
+    return of(0);
+  });
+}
+
+/**
+ * Executes the unset builtin: `unset -f` removes functions, anything else
+ * is handled by the variables module.
+ */
+function executeUnset$(args: string[], io: CommandIO): Observable<number> {
+  if (args[0] === "-f") {
+    return executeUnsetFunctionCommand$(args.slice(1));
+  }
+
+  return executeUnsetCommand$(args, io);
+}
+
+function executeTypeCommand$(args: string[], io: CommandIO): Observable<number> {
+  const targetCommand = args[0];
+  const alias = getAlias(targetCommand);
+  const definition = getFunction(targetCommand);
+
+  if (alias !== undefined) {
+    return write$(io.stdout, `${targetCommand} is aliased to \`${alias}'\n`).pipe(map(() => 0));
+  }
+
+  if (definition) {
+    return write$(io.stdout, `${targetCommand} is a function\n${formatFunction(definition)}\n`).pipe(map(() => 0));
+  }
+
+  if (isBuiltin(targetCommand)) {
+    return write$(io.stdout, `${targetCommand} is a shell builtin\n`).pipe(map(() => 0));
+  }
+
+  const hashedPath = getHashedCommand(targetCommand);
+
+  if (hashedPath) {
+    return write$(io.stdout, `${targetCommand} is hashed (${hashedPath})\n`).pipe(map(() => 0));
+  }
+
+  const fullPath = findCommand(targetCommand);
+
+  if (fullPath) {
+    return write$(io.stdout, `${targetCommand} is ${fullPath}\n`).pipe(map(() => 0));
+  }
+
+  return write$(io.stdout, `${targetCommand}: not found\n`).pipe(map(() => 1));
 }
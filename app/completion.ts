@@ -1,122 +1,631 @@
 /**
  * Tab Completion Module
- * 
- * Provides intelligent command completion for the shell.
- * 
+ *
+ * Provides intelligent command completion for the shell, and the complete
+ * and compgen builtins that program it.
+ *
  * Features:
- * - Builtin command completion
- * - Executable file completion from PATH
+ * - Builtin, alias and function completion
+ * - Executable file completion from PATH, through the hash module's index
+ * - File and directory completion for arguments, with ~ for $HOME
+ * - Programmable completion: specs registered with `complete` are asked
+ *   before the default completion of a command's arguments
+ * - Specs for the shell's own builtins, e.g. directories for cd, variables
+ *   for unset, option names for shopt and flags for history
  * - Longest common prefix calculation
  * - Multiple completion display
  * - Bell notification for no matches
- * 
+ *
  * Completion behavior:
- * - Single match: Auto-complete with space
+ * - The word under the cursor is found with parseCommand's quoting rules,
+ *   so `cat "my fi<TAB>` and `cat my\ fi<TAB>` both complete "my file"
+ * - The first word of a command (also after |, ;, & and parentheses) is
+ *   completed as a command, unless it contains "/"
+ * - Other words are completed from the command's spec if it has one, and as
+ *   file names otherwise
+ * - Single match: Auto-complete with space, or "/" for a directory
  * - Multiple matches: Show common prefix or list all
  * - No matches: Bell sound
  * - Double-tab: Display all available completions
+ * - Inserted text is escaped to fit the word: backslashes outside quotes,
+ *   and an open quote is closed once the word is complete
+ *
+ * Commands supported:
+ * - complete -W WORDS NAME...: Complete from a list of words, split at blanks
+ * - complete -F FUNC NAME...: Complete from the COMPREPLY array set by FUNC,
+ *   which is called with the command, the word being completed and the word
+ *   before it, and sees COMP_WORDS, COMP_CWORD, COMP_LINE and COMP_POINT
+ * - complete -A ACTION NAME...: Complete alias, builtin, command, directory,
+ *   file, function, hostname, setopt, shopt, user or variable names; -a, -b,
+ *   -c, -d, -f, -u and -v are short for the common ones
+ * - complete -o OPTION NAME...: bashdefault or default (fall back to the
+ *   default completion when nothing matches), dirnames (fall back to
+ *   directories), plusdirs (add directories), filenames (mark directories
+ *   from -W and -F with "/"), nospace (no space after a match)
+ * - complete, complete -p [NAME...]: List specs as complete commands
+ * - complete -r [NAME...]: Remove specs, or all of them
+ * - compgen [-abcdfuv] [-A ACTION] [-o OPTION] [-W WORDS] [WORD]: Print the
+ *   matches for WORD, one per line
+ *
+ * Words from COMPREPLY that do not start with the word being completed are
+ * left out, since completion can only add to what was typed.
  */
 
 import path from "node:path";
 import fs from "node:fs";
+import { Observable, of, defer } from "rxjs";
+import { map, concatMap, catchError } from "rxjs/operators";
+import { parseCommandList } from "./parser";
+import type { CommandListEntry } from "./parser";
+import type { CommandResult } from "./executor";
+import { getAliasNames } from "./aliases";
+import { getFunctionNames } from "./functions";
+import { getOptionNames } from "./options";
+import { getCommandNames } from "./hash";
+import { getCurrentPrompt } from "./prompt";
+import { getVariable, getVariableNames, getArray, setArray, setVariable, unsetVariable } from "./variables";
+import { getLastExitStatus, setLastExitStatus } from "./status";
+import { writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+/**
+ * What completion needs from the rest of the shell: the builtin names, a
+ * way to run -F functions (absent where no functions can be called), and
+ * how to show the line again after listing matches (as typed by default).
+ */
+export interface CompletionContext {
+  builtinNames: () => string[];
+  runList?: (list: CommandListEntry[]) => Observable<CommandResult>;
+  formatLine?: (line: string) => string;
+}
+
+/**
+ * The word being completed: its text as typed, its value after quote
+ * removal, the quote still open at the cursor, and its position in the
+ * command (0 for the command name), after the command's earlier words.
+ */
+interface CurrentWord {
+  raw: string;
+  value: string;
+  quote: string;
+  index: number;
+  command: string | undefined;
+  words: string[];
+}
+
+/**
+ * A possible completion: the full word after quote removal, and the name
+ * listed on double-tab.
+ */
+interface Candidate {
+  value: string;
+  display: string;
+}
+
+/**
+ * How to complete a command's arguments, as registered with `complete`.
+ */
+interface CompletionSpec {
+  actions: string[];
+  options: string[];
+  words?: string;
+  functionName?: string;
+}
+
+// Unquoted characters that end a command, putting the next word in command position
+const COMMAND_SEPARATORS = ";|&(";
+// Unquoted characters that end a word without changing its command
+const WORD_SEPARATORS = " \t<>";
+// Characters escaped with a backslash in an unquoted word
+const SPECIAL_CHARACTERS = /[\s'"\\$`&|;<>()*?[\]!{}#]/g;
+
+const ACTIONS = ["alias", "builtin", "command", "directory", "file", "function", "hostname", "setopt", "shopt", "user", "variable"];
+// Single-letter flags for the common actions
+const ACTION_FLAGS: Record<string, string> = {
+  a: "alias", b: "builtin", c: "command", d: "directory", f: "file", u: "user", v: "variable"
+};
+const SPEC_OPTIONS = ["bashdefault", "default", "dirnames", "filenames", "nospace", "plusdirs"];
+const COMPLETE_USAGE = "complete: usage: complete [-abcdfuv] [-pr] [-o option] [-A action] [-W wordlist] [-F function] [name ...]\n";
+const COMPGEN_USAGE = "compgen: usage: compgen [-abcdfuv] [-o option] [-A action] [-W wordlist] [word]\n";
+
+// Completion specs, keyed by command name; the shell's own builtins start with theirs
+const specs = new Map<string, CompletionSpec>([
+  [".", { actions: ["file"], options: [] }],
+  ["alias", { actions: ["alias"], options: [] }],
+  ["cd", { actions: ["directory"], options: [] }],
+  ["complete", { actions: ["command"], options: [] }],
+  ["export", { actions: ["variable"], options: [] }],
+  ["hash", { actions: ["command"], options: [] }],
+  ["history", { actions: [], options: ["default"], words: "-a -c -d -n -r -w" }],
+  ["local", { actions: ["variable"], options: [] }],
+  ["set", { actions: ["setopt"], options: [], words: "-o +o" }],
+  ["shopt", { actions: ["shopt"], options: [], words: "-q -s -u" }],
+  ["source", { actions: ["file"], options: [] }],
+  ["type", { actions: ["command"], options: [] }],
+  ["unalias", { actions: ["alias"], options: [] }],
+  ["unset", { actions: ["variable", "function"], options: [] }]
+]);
 
 // Tab completion state
 let lastTabLine = "";
 let tabCount = 0;
 
-export function setupCompletion() {
-  return (line: string) => {
+/**
+ * Creates the line editor's completer.
+ *
+ * @param context - Builtin names and the runner for -F functions
+ * @returns Completer that reports the completions through its callback
+ */
+export function setupCompletion(context: CompletionContext) {
+  return (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
     if (line !== lastTabLine) {
       tabCount = 1;
       lastTabLine = line;
     } else {
       tabCount++;
     }
-    
-    const completions = getCompletions(line);
-    
-    if (completions.length === 0) {
-      process.stdout.write("\x07");
 
-      return [[], line];
+    const word = findCurrentWord(line);
+    const spec = findSpec(word);
+
+    getCompletions$(word, spec, line, context).subscribe(completions => {
+      callback(null, chooseCompletion(line, word, completions, spec?.options.includes("nospace") ?? false, context));
+    });
+  };
+}
+
+/**
+ * Finds what tab would add to a line when it can complete the last word
+ * one way, for autosuggestions. Completion functions are not run, since
+ * the line is still being typed, and nothing rings the bell.
+ *
+ * @param line - The line up to the cursor
+ * @param context - Builtin names; runList is left unused
+ * @returns The text completion would add, or null if there is none
+ *
+ * @example
+ * suggestCompletion("cat app/pa", context)   // "rser.ts"
+ */
+export function suggestCompletion(line: string, context: CompletionContext): string | null {
+  const word = findCurrentWord(line);
+  const spec = findSpec(word);
+  let completion: string | null = null;
+
+  if (word.raw === "") {
+    return null;
+  }
+
+  getCompletions$(word, spec, line, { builtinNames: context.builtinNames }).subscribe(completions => {
+    const values = completions.map(candidate => candidate.value);
+    const common = getLongestCommonPrefix(values);
+
+    if (common.length > word.value.length) {
+      completion = completeWord(word, common, false).slice(word.raw.length);
     }
-    
-    if (completions.length === 1) {
-      return [[completions[0] + " "], line];
+  });
+
+  return completion || null;
+}
+
+/**
+ * Executes the complete builtin.
+ * Supports: complete [-abcdfuv] [-o option] [-A action] [-W words] [-F func] NAME...,
+ * complete [-p] [NAME...], complete -r [NAME...]
+ *
+ * @param args - Command arguments (excluding 'complete' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeCompleteCommand$(args: string[], io: CommandIO): Observable<number> {
+  const parsed = parseSpecArguments("complete", args, ["p", "r"]);
+
+  if (typeof parsed === "string") {
+    return writeLines$(io.stderr, [parsed, COMPLETE_USAGE]).pipe(map(() => 2));
+  }
+
+  const { spec, flags, operands } = parsed;
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const defines = spec.actions.length > 0 || spec.options.length > 0 || spec.words !== undefined || spec.functionName !== undefined;
+
+  if (flags.includes("r") && operands.length === 0) {
+    specs.clear();
+  } else if (flags.includes("r")) {
+    errors.push(...operands.filter(name => !specs.delete(name)).map(name => `complete: ${name}: no completion specification\n`));
+  } else if (operands.length === 0 && defines) {
+    errors.push(COMPLETE_USAGE);
+  } else if (flags.includes("p") || !defines) {
+    for (const name of operands.length > 0 ? operands : [...specs.keys()].sort()) {
+      const existing = specs.get(name);
+
+      if (existing) {
+        lines.push(`${formatSpec(name, existing)}\n`);
+      } else {
+        errors.push(`complete: ${name}: no completion specification\n`);
+      }
     }
-    
-    // Multiple completions - check for longest common prefix
-    const lcp = getLongestCommonPrefix(completions);
-    
-    if (lcp.length > line.length) {
-      return [[lcp], line];
+  } else {
+    for (const name of operands) {
+      specs.set(name, spec);
     }
-    
-    // No further completion possible
+  }
+
+  return writeLines$(io.stdout, lines).pipe(
+    concatMap(() => writeLines$(io.stderr, errors)),
+    map(() => errors.length > 0 ? (errors.includes(COMPLETE_USAGE) ? 2 : 1) : 0)
+  );
+}
+
+/**
+ * Executes the compgen builtin.
+ * Supports: compgen [-abcdfuv] [-o option] [-A action] [-W words] [WORD]
+ *
+ * @param args - Command arguments (excluding 'compgen' itself)
+ * @param io - Streams of the builtin
+ * @param context - Builtin names for -b and -c
+ * @returns Observable with the exit status: 1 if nothing matched
+ *
+ * @example
+ * // compgen -W "start stop status" st
+ * executeCompgenCommand$(["-W", "start stop status", "st"], io, context)
+ * // Writes: "start\nstop\nstatus\n"
+ */
+export function executeCompgenCommand$(args: string[], io: CommandIO, context: CompletionContext): Observable<number> {
+  const parsed = parseSpecArguments("compgen", args, []);
+
+  if (typeof parsed === "string") {
+    return writeLines$(io.stderr, [parsed, COMPGEN_USAGE]).pipe(map(() => 2));
+  }
+
+  if (parsed.spec.functionName !== undefined) {
+    return writeLines$(io.stderr, ["compgen: -F: only supported by complete\n"]).pipe(map(() => 2));
+  }
+
+  const prefix = parsed.operands[0] ?? "";
+  const word: CurrentWord = { raw: prefix, value: prefix, quote: "", index: 1, command: undefined, words: [] };
+
+  return completeArguments$(word, parsed.spec, "", context).pipe(
+    // Directories are listed without the "/" that completion adds
+    map(matches => matches.map(match => `${match.value.length > 1 ? match.value.replace(/\/$/, "") : match.value}\n`)),
+    concatMap(lines => writeLines$(io.stdout, lines).pipe(map(() => lines.length > 0 ? 0 : 1)))
+  );
+}
+
+/**
+ * Turns the completions of a word into the line editor's answer: the word
+ * completed, extended to the common prefix, or left alone with a bell (and
+ * the list shown on a second tab).
+ */
+function chooseCompletion(
+  line: string,
+  word: CurrentWord,
+  completions: Candidate[],
+  noSpace: boolean,
+  context: CompletionContext
+): [string[], string] {
+  if (completions.length === 0) {
     process.stdout.write("\x07");
-    
-    if (tabCount === 1) {
-      return [[], line];
-    } else {
-      const sortedCompletions = completions.sort();
 
-      process.stdout.write(`\n${sortedCompletions.join("  ")}\n`);
-      setTimeout(() => {
-        // Re-display prompt and current line
-        process.stdout.write(`$ ${line}`);
-      }, 0);
+    return [[], line];
+  }
+
+  if (completions.length === 1) {
+    return [[completeWord(word, completions[0].value, !noSpace)], word.raw];
+  }
+
+  // Multiple completions - check for longest common prefix
+  const lcp = getLongestCommonPrefix(completions.map(candidate => candidate.value));
+
+  if (lcp.length > word.value.length) {
+    return [[completeWord(word, lcp, false)], word.raw];
+  }
+
+  // No further completion possible
+  process.stdout.write("\x07");
+
+  if (tabCount === 1) {
+    return [[], line];
+  } else {
+    const sortedCompletions = completions.map(candidate => candidate.display).sort();
+
+    process.stdout.write(`\n${sortedCompletions.join("  ")}\n`);
+    setTimeout(() => {
+      // Re-display prompt and current line
+      process.stdout.write(`${getCurrentPrompt()}${context.formatLine?.(line) ?? line}`);
+    }, 0);
+
+    return [[], line];
+  }
+}
+
+/**
+ * Finds the word that ends at the cursor, following parseCommand's
+ * quoting rules.
+ *
+ * @example
+ * findCurrentWord('cat "my fi')
+ * // Returns: { raw: '"my fi', value: "my fi", quote: '"', index: 1, command: "cat", words: ["cat"] }
+ */
+function findCurrentWord(line: string): CurrentWord {
+  let words: string[] = [];
+  let raw = "";
+  let value = "";
+  let quote = "";
+  let inWord = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
 
-      return [[], line];
+    if (char === "\\" && quote !== "'" && i + 1 < line.length) {
+      const nextChar = line[i + 1];
+
+      // Inside double quotes only " and \ are escaped; the backslash stays otherwise
+      if (!quote || nextChar === '"' || nextChar === "\\") {
+        value += nextChar;
+        raw += char + nextChar;
+        i++;
+      } else {
+        value += char;
+        raw += char;
+      }
+
+      inWord = true;
+    } else if ((char === "'" || char === '"') && !quote) {
+      quote = char;
+      raw += char;
+      inWord = true;
+    } else if (char === quote) {
+      quote = "";
+      raw += char;
+    } else if (!quote && (COMMAND_SEPARATORS.includes(char) || WORD_SEPARATORS.includes(char))) {
+      if (inWord) {
+        words.push(value);
+      }
+
+      if (COMMAND_SEPARATORS.includes(char)) {
+        words = [];
+      }
+
+      raw = "";
+      value = "";
+      inWord = false;
+    } else {
+      raw += char;
+      value += char;
+      inWord = true;
     }
-  };
+  }
+
+  return { raw, value, quote, index: words.length, command: words[0], words };
 }
 
-function getCompletions(line: string): string[] {
-  const words = line.split(" ");
-  
-  // Only complete if there's exactly one word (the command)
-  if (words.length !== 1) {
+function getCompletions$(word: CurrentWord, spec: CompletionSpec | undefined, line: string, context: CompletionContext): Observable<Candidate[]> {
+  if (word.index === 0 && !word.value.includes("/")) {
+    return of(getCommandCompletions(word.value, context));
+  }
+
+  return spec ? completeArguments$(word, spec, line, context) : of(getPathCompletions(word.value, false));
+}
+
+/**
+ * Finds the spec for the command whose argument is being completed, by its
+ * name as typed or else its last path component.
+ */
+function findSpec(word: CurrentWord): CompletionSpec | undefined {
+  if (word.index === 0 || word.command === undefined) {
+    return undefined;
+  }
+
+  return specs.get(word.command) ?? specs.get(path.basename(word.command));
+}
+
+/**
+ * Completes a word with a spec: the matches of its actions, word list and
+ * function, then the fallbacks its options ask for.
+ */
+function completeArguments$(word: CurrentWord, spec: CompletionSpec, line: string, context: CompletionContext): Observable<Candidate[]> {
+  const generated = [
+    ...spec.actions.flatMap(action => getActionCompletions(action, word.value, context)),
+    ...filterNames(spec.words?.split(/\s+/).filter(Boolean) ?? [], word.value)
+  ];
+  const reply$ = spec.functionName ? runCompletionFunction$(spec.functionName, word, line, context) : of([]);
+
+  return reply$.pipe(
+    map(reply => {
+      const replies = reply.filter(value => value.startsWith(word.value));
+      const matches = [...generated, ...(spec.options.includes("filenames") ? replies.map(toFileCandidate) : filterNames(replies, word.value))];
+
+      if (spec.options.includes("plusdirs")) {
+        matches.push(...getPathCompletions(word.value, true));
+      }
+
+      if (matches.length === 0 && spec.options.includes("dirnames")) {
+        return getPathCompletions(word.value, true);
+      }
+
+      if (matches.length === 0 && (spec.options.includes("default") || spec.options.includes("bashdefault"))) {
+        return getPathCompletions(word.value, false);
+      }
+
+      // Keep the first of each value, e.g. a directory found by both -d and -o plusdirs
+      return [...new Map(matches.map(match => [match.value, match])).values()];
+    })
+  );
+}
+
+/**
+ * Runs a -F completion function and reads the COMPREPLY array it sets. The
+ * exit status of the last command is left as it was.
+ */
+function runCompletionFunction$(name: string, word: CurrentWord, line: string, context: CompletionContext): Observable<string[]> {
+  const runList = context.runList;
+
+  if (!runList) {
+    return of([]);
+  }
+
+  return defer(() => {
+    const exitStatus = getLastExitStatus();
+    const call = [name, word.command ?? "", word.value, word.words[word.words.length - 1] ?? ""];
+
+    setArray("COMP_WORDS", [...word.words, word.value]);
+    setVariable("COMP_CWORD", String(word.words.length));
+    setVariable("COMP_LINE", line);
+    setVariable("COMP_POINT", String(line.length));
+    unsetVariable("COMPREPLY");
+
+    return runList(parseCommandList(call.map(quoteWord).join(" "))).pipe(
+      map(() => {
+        const reply = getArray("COMPREPLY") ?? [getVariable("COMPREPLY")].filter(value => value !== undefined);
+
+        setLastExitStatus(exitStatus);
+
+        return reply;
+      }),
+      catchError(() => of([]))
+    );
+  });
+}
+
+function getActionCompletions(action: string, prefix: string, context: CompletionContext): Candidate[] {
+  switch (action) {
+    case "command":
+      return getCommandCompletions(prefix, context);
+    case "directory":
+      return getPathCompletions(prefix, true);
+    case "file":
+      return getPathCompletions(prefix, false);
+    case "alias":
+      return filterNames(getAliasNames(), prefix);
+    case "builtin":
+      return filterNames(context.builtinNames(), prefix);
+    case "function":
+      return filterNames(getFunctionNames(), prefix);
+    case "variable":
+      return filterNames(getVariableNames(), prefix);
+    case "shopt":
+      return filterNames(getOptionNames("shopt"), prefix);
+    case "setopt":
+      return filterNames(getOptionNames("set"), prefix);
+    case "hostname":
+      return filterNames(readNames("/etc/hosts", line => line.replace(/#.*/, "").trim().split(/\s+/).slice(1)), prefix);
+    case "user":
+      return filterNames(readNames("/etc/passwd", line => line.startsWith("#") ? [] : [line.split(":")[0]]), prefix);
+    default:
+      return [];
+  }
+}
+
+function filterNames(names: string[], prefix: string): Candidate[] {
+  return names.filter(name => name !== "" && name.startsWith(prefix)).map(name => ({ value: name, display: name }));
+}
+
+/**
+ * Reads names from a system file such as /etc/hosts, one line at a time.
+ */
+function readNames(file: string, namesOf: (line: string) => string[]): string[] {
+  try {
+    return [...new Set(fs.readFileSync(file, "utf8").split("\n").flatMap(namesOf))];
+  } catch {
     return [];
   }
-  
-  const currentWord = words[0];
+}
+
+/**
+ * Treats a COMPREPLY word as a file name (complete -o filenames): a
+ * directory gets a "/" and only the last component is listed.
+ */
+function toFileCandidate(value: string): Candidate {
+  const home = getVariable("HOME") ?? "";
+  const isDirectory = !value.endsWith("/") && isDirectoryPath(value.startsWith("~/") ? home + value.slice(1) : value);
+  const completed = isDirectory ? `${value}/` : value;
+
+  return { value: completed, display: path.basename(completed) + (completed.endsWith("/") ? "/" : "") };
+}
+
+function getCommandCompletions(currentWord: string, context: CompletionContext): Candidate[] {
   const completions: string[] = [];
-  
-  // Check builtin commands for matches
-  const builtins = ["echo", "exit", "history"];
-  
-  for (const builtin of builtins) {
-    if (builtin.startsWith(currentWord)) {
-      completions.push(builtin);
+
+  // Check builtins, aliases and functions for matches
+  for (const name of [...context.builtinNames(), ...getAliasNames(), ...getFunctionNames()]) {
+    if (name.startsWith(currentWord)) {
+      completions.push(name);
     }
   }
-  
+
   // Check executable files in PATH directories
-  const pathDirs = process.env.PATH?.split(path.delimiter) || [];
-  
-  for (const dir of pathDirs) {
-    try {
-      const files = fs.readdirSync(dir);
-      
-      for (const file of files) {
-        if (file.startsWith(currentWord)) {
-          const fullPath = path.join(dir, file);
-          
-          try {
-            const stats = fs.statSync(fullPath);
-            
-            // Only include executable files
-            if (stats.isFile() && (stats.mode & 0o111)) {
-              completions.push(file);
-            }
-          } catch {}
-        }
-      }
-    } catch {}
-  }
-  
+  for (const name of getCommandNames()) {
+    if (name.startsWith(currentWord)) {
+      completions.push(name);
+    }
+  }
+
   // Remove duplicates and return
-  return [...new Set(completions)];
+  return [...new Set(completions)].map(name => ({ value: name, display: name }));
+}
+
+/**
+ * Lists the files in the directory part of a word whose names start with
+ * the rest of it. Directories end in "/". Names starting with "." are only
+ * offered when the word asks for them.
+ *
+ * @example
+ * getPathCompletions("app/pa", false)
+ * // Returns: [{ value: "app/parser.ts", display: "parser.ts" }, ...]
+ */
+function getPathCompletions(currentWord: string, directoriesOnly: boolean): Candidate[] {
+  const directoryPart = currentWord.slice(0, currentWord.lastIndexOf("/") + 1);
+  const namePrefix = currentWord.slice(directoryPart.length);
+  const home = getVariable("HOME") ?? "";
+  const directory = directoryPart.startsWith("~/") ? home + directoryPart.slice(1) : directoryPart || ".";
+  const completions: Candidate[] = [];
+
+  try {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      if (!entry.name.startsWith(namePrefix) || (entry.name.startsWith(".") && !namePrefix.startsWith("."))) {
+        continue;
+      }
+
+      const isDirectory = entry.isDirectory() || (entry.isSymbolicLink() && isDirectoryPath(path.join(directory, entry.name)));
+
+      if (directoriesOnly && !isDirectory) {
+        continue;
+      }
+
+      const name = isDirectory ? `${entry.name}/` : entry.name;
+
+      completions.push({ value: directoryPart + name, display: name });
+    }
+  } catch {}
+
+  return completions;
+}
+
+function isDirectoryPath(fullPath: string): boolean {
+  try {
+    return fs.statSync(fullPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the text that replaces the word: the word as typed plus the rest
+ * of the completion, escaped for the quote that is open at that point. A
+ * finished word also gets its quote closed and a trailing space, except for
+ * a directory, which is likely to be continued.
+ */
+function completeWord(word: CurrentWord, completion: string, finished: boolean): string {
+  const rest = completion.slice(word.value.length);
+  const escaped = word.quote === "'" ? rest.replace(/'/g, "'\\''")
+    : word.quote === '"' ? rest.replace(/["\\$`]/g, "\\$&")
+    : rest.replace(SPECIAL_CHARACTERS, "\\$&");
+
+  if (!finished || completion.endsWith("/")) {
+    return word.raw + escaped;
+  }
+
+  return `${word.raw}${escaped}${word.quote} `;
 }
 
 function getLongestCommonPrefix(strings: string[]): string {
@@ -138,6 +647,104 @@ function getLongestCommonPrefix(strings: string[]): string {
   while (i < first.length && i < last.length && first[i] === last[i]) {
     i++;
   }
-  
+
   return first.substring(0, i);
 }
+
+/**
+ * Parses the options shared by complete and compgen into a spec.
+ *
+ * @param command - "complete" or "compgen", for error messages
+ * @param args - Command arguments
+ * @param extraFlags - Flags the command takes besides the spec's, such as "p"
+ * @returns The spec, the extra flags given and the operands, or an error message
+ */
+function parseSpecArguments(
+  command: string,
+  args: string[],
+  extraFlags: string[]
+): { spec: CompletionSpec, flags: string[], operands: string[] } | string {
+  const spec: CompletionSpec = { actions: [], options: [] };
+  const flags: string[] = [];
+  let i = 0;
+
+  for (; i < args.length && args[i].startsWith("-") && args[i] !== "-"; i++) {
+    if (args[i] === "--") {
+      i++;
+
+      break;
+    }
+
+    for (let j = 1; j < args[i].length; j++) {
+      const letter = args[i][j];
+
+      if (ACTION_FLAGS[letter]) {
+        spec.actions.push(ACTION_FLAGS[letter]);
+
+        continue;
+      }
+
+      if (extraFlags.includes(letter)) {
+        flags.push(letter);
+
+        continue;
+      }
+
+      if (!"AFoW".includes(letter)) {
+        return `${command}: -${letter}: invalid option\n`;
+      }
+
+      // The value is the rest of the argument, or the next argument
+      const value = j + 1 < args[i].length ? args[i].slice(j + 1) : args[++i];
+
+      if (value === undefined) {
+        return `${command}: -${letter}: option requires an argument\n`;
+      }
+
+      if (letter === "A" && !ACTIONS.includes(value)) {
+        return `${command}: ${value}: invalid action name\n`;
+      }
+
+      if (letter === "o" && !SPEC_OPTIONS.includes(value)) {
+        return `${command}: ${value}: invalid option name\n`;
+      }
+
+      if (letter === "A") {
+        spec.actions.push(value);
+      } else if (letter === "o") {
+        spec.options.push(value);
+      } else if (letter === "W") {
+        spec.words = value;
+      } else {
+        spec.functionName = value;
+      }
+
+      break;
+    }
+  }
+
+  return { spec, flags, operands: args.slice(i) };
+}
+
+/**
+ * Formats a spec as the complete command that registers it.
+ *
+ * @example
+ * formatSpec("cd", { actions: ["directory"], options: [] })   // "complete -d cd"
+ */
+function formatSpec(name: string, spec: CompletionSpec): string {
+  const flagOf = (action: string) => Object.keys(ACTION_FLAGS).find(letter => ACTION_FLAGS[letter] === action);
+
+  return [
+    "complete",
+    ...spec.options.map(option => `-o ${option}`),
+    ...spec.actions.map(action => flagOf(action) ? `-${flagOf(action)}` : `-A ${action}`),
+    ...spec.words !== undefined ? [`-W ${quoteWord(spec.words)}`] : [],
+    ...spec.functionName !== undefined ? [`-F ${spec.functionName}`] : [],
+    name
+  ].join(" ");
+}
+
+function quoteWord(word: string): string {
+  return `'${word.replace(/'/g, "'\\''")}'`;
+}
@@ -0,0 +1,892 @@
+/**
+ * Line Editor Module
+ *
+ * Emacs and vi editing modes on top of the readline interface, with key
+ * bindings the bind builtin can change. Like the reverse search, the editor
+ * takes over the terminal's keys: a key bound in the current keymap runs its
+ * function, any other key goes on to readline, which edits the line as usual.
+ *
+ * Modes (set -o emacs, set -o vi; with neither, readline's own keys apply):
+ * - emacs: Readline's keys, plus multi-key sequences such as Ctrl-X Ctrl-E
+ * - vi: Lines start in insert mode, and Escape switches to command mode,
+ *   where keys move and edit as in vi: counts (3w), operators with motions
+ *   (dw, c$, y0, dd), f/t searches, put, replace and undo
+ *
+ * Keymaps: emacs, vi-insert and vi-command. Bindings are key sequences
+ * written with readline's escapes (\C-x, \M-x, \e, \t, \nnn, \xHH); the
+ * functions are readline's functions of the same names (bind -l lists them).
+ * edit-and-execute-command (Ctrl-X Ctrl-E, or v in vi command mode) opens
+ * the line in $VISUAL or $EDITOR (vi by default) and runs what is saved.
+ *
+ * Commands supported:
+ * - bind -l: List the function names
+ * - bind -p: List the bindings of the keymap
+ * - bind -m KEYMAP: Use KEYMAP for the rest of the arguments
+ * - bind -r KEYSEQ: Remove a binding
+ * - bind '"KEYSEQ": FUNCTION': Bind a key sequence to a function
+ * - bind 'set editing-mode vi' (or emacs): Switch modes
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { spawnSync } from "node:child_process";
+import type { Interface } from "node:readline";
+import { Observable } from "rxjs";
+import { map, concatMap } from "rxjs/operators";
+import { getOption, setOption } from "./options";
+import { getVariable } from "./variables";
+import { isSearching, interceptKeypress } from "./search";
+import type { Key, KeypressListener } from "./search";
+import { writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+type KeymapName = "emacs" | "vi-insert" | "vi-command";
+
+/**
+ * Where a motion moves the cursor, and whether an operator applied with it
+ * takes in the character there (as with e and f).
+ */
+interface MotionTarget {
+  position: number;
+  inclusive: boolean;
+}
+
+/**
+ * A cursor motion. Returns null when there is nowhere to go, such as an f
+ * search for a character that is not on the line.
+ */
+type Motion = (line: string, cursor: number, key: string) => MotionTarget | null;
+
+/**
+ * An editing function, run with the keys bound to it and the count typed
+ * before them (1 by default).
+ */
+type EditorFunction = (key: string, count: number) => void;
+
+const BIND_USAGE = "bind: usage: bind [-lp] [-m keymap] [-r keyseq] [keyseq:readline-function]\n";
+
+// Keymap names bind -m accepts
+const KEYMAP_NAMES: Record<string, KeymapName> = {
+  "emacs": "emacs",
+  "emacs-standard": "emacs",
+  "vi": "vi-command",
+  "vi-command": "vi-command",
+  "vi-move": "vi-command",
+  "vi-insert": "vi-insert"
+};
+
+// Backslash escapes of key sequences, besides \C-, \M-, \nnn and \xHH
+const KEY_ESCAPES: Record<string, string> = {
+  a: "\x07", b: "\b", d: "\x7f", e: "\x1b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v"
+};
+
+// Functions that hand readline the key it already acts on
+const READLINE_KEYS: Record<string, Key> = {
+  "accept-line": { name: "return" },
+  "backward-delete-char": { name: "backspace" },
+  "backward-kill-word": { meta: true, name: "backspace" },
+  "backward-word": { meta: true, name: "b" },
+  "clear-screen": { ctrl: true, name: "l" },
+  "complete": { name: "tab" },
+  "delete-char": { name: "delete" },
+  "forward-word": { meta: true, name: "f" },
+  "kill-line": { ctrl: true, name: "k" },
+  "kill-word": { meta: true, name: "d" },
+  "next-history": { name: "down" },
+  "previous-history": { name: "up" },
+  "reverse-search-history": { ctrl: true, name: "r" },
+  "transpose-chars": { ctrl: true, name: "t" },
+  "unix-line-discard": { ctrl: true, name: "u" },
+  "unix-word-rubout": { ctrl: true, name: "w" },
+  "yank": { ctrl: true, name: "y" }
+};
+
+// Functions that move the cursor; in vi command mode they also give an operator its range
+const MOTIONS: Record<string, Motion> = {
+  "backward-char": (line, cursor) => ({ position: cursor - 1, inclusive: false }),
+  "forward-char": (line, cursor) => ({ position: cursor + 1, inclusive: false }),
+  "beginning-of-line": () => ({ position: 0, inclusive: false }),
+  "end-of-line": line => ({ position: line.length, inclusive: false }),
+  "vi-first-print": line => ({ position: line.search(/\S|$/), inclusive: false }),
+  "vi-fword": (line, cursor) => ({ position: nextWordStart(line, cursor, false), inclusive: false }),
+  "vi-fWord": (line, cursor) => ({ position: nextWordStart(line, cursor, true), inclusive: false }),
+  "vi-bword": (line, cursor) => ({ position: previousWordStart(line, cursor, false), inclusive: false }),
+  "vi-bWord": (line, cursor) => ({ position: previousWordStart(line, cursor, true), inclusive: false }),
+  "vi-eword": (line, cursor) => ({ position: wordEnd(line, cursor, false), inclusive: true }),
+  "vi-eWord": (line, cursor) => ({ position: wordEnd(line, cursor, true), inclusive: true })
+};
+
+// Functions that start a vi operator, which applies over the range of the next motion
+const OPERATORS = ["vi-change-to", "vi-delete-to", "vi-yank-to"];
+
+// Default bindings of each keymap; keys without a binding go to readline
+const DEFAULT_BINDINGS: Record<KeymapName, [string, string][]> = {
+  "emacs": [
+    ["\\C-a", "beginning-of-line"],
+    ["\\C-e", "end-of-line"],
+    ["\\C-b", "backward-char"],
+    ["\\C-f", "forward-char"],
+    ["\\eb", "backward-word"],
+    ["\\ef", "forward-word"],
+    ["\\C-p", "previous-history"],
+    ["\\C-n", "next-history"],
+    ["\\C-h", "backward-delete-char"],
+    ["\\C-?", "backward-delete-char"],
+    ["\\C-k", "kill-line"],
+    ["\\C-u", "unix-line-discard"],
+    ["\\C-w", "unix-word-rubout"],
+    ["\\ed", "kill-word"],
+    ["\\e\\C-?", "backward-kill-word"],
+    ["\\C-y", "yank"],
+    ["\\C-t", "transpose-chars"],
+    ["\\C-l", "clear-screen"],
+    ["\\C-r", "reverse-search-history"],
+    ["\\C-x\\C-e", "edit-and-execute-command"],
+    ["\\e\\C-j", "vi-editing-mode"]
+  ],
+  "vi-insert": [
+    ["\\e", "vi-movement-mode"],
+    ["\\C-h", "backward-delete-char"],
+    ["\\C-?", "backward-delete-char"],
+    ["\\C-u", "unix-line-discard"],
+    ["\\C-w", "unix-word-rubout"],
+    ["\\C-r", "reverse-search-history"],
+    ["\\C-l", "clear-screen"]
+  ],
+  "vi-command": [
+    ["\\C-m", "accept-line"],
+    ["\\C-j", "accept-line"],
+    ["\\C-i", "complete"],
+    ["\\C-l", "clear-screen"],
+    ["\\C-r", "reverse-search-history"],
+    ["\\C-e", "emacs-editing-mode"],
+    ["/", "reverse-search-history"],
+    ["h", "backward-char"],
+    ["\\C-h", "backward-char"],
+    ["\\C-?", "backward-char"],
+    ["l", "forward-char"],
+    [" ", "forward-char"],
+    ["0", "beginning-of-line"],
+    ["^", "vi-first-print"],
+    ["$", "end-of-line"],
+    ["w", "vi-fword"],
+    ["W", "vi-fWord"],
+    ["b", "vi-bword"],
+    ["B", "vi-bWord"],
+    ["e", "vi-eword"],
+    ["E", "vi-eWord"],
+    ["f", "vi-char-search"],
+    ["F", "vi-char-search"],
+    ["t", "vi-char-search"],
+    ["T", "vi-char-search"],
+    ["k", "previous-history"],
+    ["-", "previous-history"],
+    ["j", "next-history"],
+    ["+", "next-history"],
+    ["i", "vi-insertion-mode"],
+    ["a", "vi-append-mode"],
+    ["I", "vi-insert-beg"],
+    ["A", "vi-append-eol"],
+    ["x", "vi-delete"],
+    ["X", "vi-rubout"],
+    ["r", "vi-change-char"],
+    ["s", "vi-subst"],
+    ["S", "vi-subst"],
+    ["~", "vi-change-case"],
+    ["d", "vi-delete-to"],
+    ["D", "vi-delete-to"],
+    ["c", "vi-change-to"],
+    ["C", "vi-change-to"],
+    ["y", "vi-yank-to"],
+    ["Y", "vi-yank-to"],
+    ["p", "vi-put"],
+    ["P", "vi-put"],
+    ["u", "undo"],
+    ["v", "edit-and-execute-command"],
+    ...[..."123456789"].map((digit): [string, string] => [digit, "digit-argument"])
+  ]
+};
+
+// Functions written here rather than handed to readline
+const EDITOR_FUNCTIONS: Record<string, EditorFunction> = {
+  "self-insert": key => session?.rl.write(key),
+  "vi-movement-mode": () => enterCommandMode(),
+  "vi-insertion-mode": () => enterInsertMode(cursor => cursor),
+  "vi-append-mode": () => enterInsertMode((cursor, line) => Math.min(cursor + 1, line.length)),
+  "vi-insert-beg": () => enterInsertMode((cursor, line) => line.search(/\S|$/)),
+  "vi-append-eol": () => enterInsertMode((cursor, line) => line.length),
+  "vi-delete": (key, count) => withLine((line, cursor) => operate("d", cursor, Math.min(cursor + count, line.length))),
+  "vi-rubout": (key, count) => withLine((line, cursor) => operate("d", Math.max(cursor - count, 0), cursor)),
+  "vi-subst": (key, count) => withLine((line, cursor) => key === "S"
+    ? operate("c", 0, line.length)
+    : operate("c", cursor, Math.min(cursor + count, line.length))),
+  "vi-change-char": (key, count) => {
+    awaitingChar = char => withLine((line, cursor) => {
+      if (cursor + count <= line.length) {
+        saveUndo();
+        setLine(line.slice(0, cursor) + char.repeat(count) + line.slice(cursor + count), cursor + count - 1);
+      }
+    });
+  },
+  "vi-change-case": (key, count) => withLine((line, cursor) => {
+    const end = Math.min(cursor + count, line.length);
+    const toggled = [...line.slice(cursor, end)]
+      .map(char => char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase())
+      .join("");
+
+    saveUndo();
+    setLine(line.slice(0, cursor) + toggled + line.slice(end), end);
+  }),
+  "vi-char-search": (key, count) => {
+    awaitingChar = char => moveBy((line, cursor) => findChar(line, cursor, key, char), count, key);
+  },
+  "vi-delete-to": (key, count) => startOperator(key, count),
+  "vi-change-to": (key, count) => startOperator(key, count),
+  "vi-yank-to": (key, count) => startOperator(key, count),
+  "vi-put": (key, count) => withLine((line, cursor) => {
+    // p puts after the cursor, P before it
+    const position = key === "P" || line.length === 0 ? cursor : cursor + 1;
+    const text = register.repeat(count);
+
+    saveUndo();
+    setLine(line.slice(0, position) + text + line.slice(position), position + text.length - 1);
+  }),
+  "undo": () => {
+    const previous = undoStack.pop();
+
+    if (previous) {
+      setLine(previous.line, previous.cursor);
+    }
+  },
+  "vi-editing-mode": () => {
+    setOption("vi", true);
+    commandMode = false;
+  },
+  "emacs-editing-mode": () => {
+    setOption("emacs", true);
+    commandMode = false;
+  },
+  "edit-and-execute-command": () => editAndExecute()
+};
+
+const keymaps: Record<KeymapName, Map<string, string>> = {
+  "emacs": buildKeymap("emacs"),
+  "vi-insert": buildKeymap("vi-insert"),
+  "vi-command": buildKeymap("vi-command")
+};
+
+// The interface being edited, and how keys reach readline past the editor
+let session: { rl: Interface; forward: KeypressListener } | null = null;
+// Whether vi mode is in command mode rather than insert mode
+let commandMode = false;
+// Keys typed so far of a sequence that may still match a binding
+let pendingSequence = "";
+// Digits of a vi count typed so far
+let countDigits = "";
+// A vi operator waiting for its motion
+let pendingOperator: { key: string; count: number } | null = null;
+// A vi command waiting for its character, as r and f do
+let awaitingChar: ((char: string) => void) | null = null;
+// Text deleted or yanked by the last vi operator, for put
+let register = "";
+// The line before each change, for vi undo
+let undoStack: { line: string; cursor: number }[] = [];
+
+/**
+ * Puts the line editor in front of a readline interface reading the
+ * terminal. Set up the reverse search first: the editor hands Ctrl-R to it.
+ *
+ * @param rl - Interface created with terminal output
+ * @param input - The interface's input stream
+ */
+export function setupLineEditor(rl: Interface, input: NodeJS.ReadStream): void {
+  // Keys reach readline only through forward, so the editor can act on them first
+  const forward = interceptKeypress(input, (text, key) => handleKey(text, key));
+
+  session = { rl, forward };
+  rl.on("line", () => resetLineState());
+  rl.on("SIGINT", () => resetLineState());
+}
+
+/**
+ * Opens text in an editor and waits for it to exit. The editor has the
+ * terminal to itself meanwhile.
+ *
+ * @param text - Text to edit
+ * @param editor - Editor command, split on blanks; the file is added as its last argument
+ * @returns The saved text, or null if the editor failed
+ *
+ * @example
+ * editInEditor("echo hi", "vi")   // "echo hello\n", after changing it in vi
+ */
+export function editInEditor(text: string, editor: string): string | null {
+  const [command, ...args] = editor.trim().split(/\s+/);
+  const file = path.join(os.tmpdir(), `tssh-edit-${process.pid}-${Date.now()}.sh`);
+  const rawMode = process.stdin.isTTY && process.stdin.isRaw;
+
+  try {
+    fs.writeFileSync(file, text === "" || text.endsWith("\n") ? text : `${text}\n`);
+
+    if (rawMode) {
+      process.stdin.setRawMode(false);
+    }
+
+    const result = spawnSync(command || "vi", [...args, file], { stdio: "inherit" });
+
+    return result.status === 0 ? fs.readFileSync(file, "utf8") : null;
+  } catch {
+    return null;
+  } finally {
+    if (rawMode) {
+      process.stdin.setRawMode(true);
+    }
+
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Executes the bind builtin.
+ * Supports: bind -l, bind -p, bind -m KEYMAP, bind -r KEYSEQ,
+ * bind '"KEYSEQ": FUNCTION', bind 'set editing-mode vi|emacs'
+ *
+ * @param args - Command arguments (excluding 'bind' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeBindCommand$(args: string[], io: CommandIO): Observable<number> {
+  const lines: string[] = [];
+  const errors: string[] = [];
+  let keymapName = currentKeymap() ?? "emacs";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if ((arg === "-m" || arg === "-r") && args[i + 1] === undefined) {
+      return writeLines$(io.stderr, [`bind: ${arg}: option requires an argument\n`, BIND_USAGE]).pipe(map(() => 2));
+    }
+
+    if (arg === "-m" && !Object.hasOwn(KEYMAP_NAMES, args[i + 1])) {
+      errors.push(`bind: ${args[++i]}: invalid keymap name\n`);
+
+      break;
+    }
+
+    if (arg === "-m") {
+      keymapName = KEYMAP_NAMES[args[++i]];
+    } else if (arg === "-l") {
+      lines.push(...getFunctionNames().map(name => `${name}\n`));
+    } else if (arg === "-p") {
+      lines.push(...[...keymaps[keymapName]].map(([sequence, name]) => `"${formatKeySequence(sequence)}": ${name}\n`));
+    } else if (arg === "-r") {
+      keymaps[keymapName].delete(parseKeySequence(args[++i].replace(/^"(.*)"$/, "$1")));
+    } else if (arg.startsWith("-") && arg !== "-") {
+      return writeLines$(io.stderr, [`bind: ${arg}: invalid option\n`, BIND_USAGE]).pipe(map(() => 2));
+    } else {
+      const error = applyBinding(keymapName, arg);
+
+      if (error) {
+        errors.push(`bind: ${error}\n`);
+      }
+    }
+  }
+
+  return writeLines$(io.stdout, lines).pipe(
+    concatMap(() => writeLines$(io.stderr, errors)),
+    map(() => errors.length > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Applies one binding line, as in an inputrc file.
+ *
+ * @returns An error message, or null
+ */
+function applyBinding(keymapName: KeymapName, line: string): string | null {
+  const mode = /^\s*set\s+editing-mode\s+(\S+)\s*$/.exec(line);
+
+  if (mode) {
+    if (mode[1] !== "vi" && mode[1] !== "emacs") {
+      return `${mode[1]}: invalid editing mode`;
+    }
+
+    setOption(mode[1], true);
+    commandMode = false;
+
+    return null;
+  }
+
+  const binding = /^\s*"((?:\\.|[^"\\])*)"\s*:\s*(\S+)\s*$/.exec(line);
+
+  if (!binding) {
+    return `${line}: invalid key binding`;
+  }
+
+  if (!getFunctionNames().includes(binding[2])) {
+    return `${binding[2]}: unknown function name`;
+  }
+
+  keymaps[keymapName].set(parseKeySequence(binding[1]), binding[2]);
+
+  return null;
+}
+
+function handleKey(text: string | undefined, key: Key | undefined): void {
+  const keymapName = currentKeymap();
+  const sequence = key?.sequence ?? text ?? "";
+
+  if (!session) {
+    return;
+  }
+
+  if (isSearching() || keymapName === null) {
+    session.forward(text, key);
+
+    return;
+  }
+
+  if (awaitingChar) {
+    const callback = awaitingChar;
+
+    awaitingChar = null;
+    pendingOperator = isPrintable(sequence) ? pendingOperator : null;
+
+    if (isPrintable(sequence)) {
+      callback(sequence);
+    }
+
+    return;
+  }
+
+  // A 0 after other digits is part of the count, not a motion
+  if (keymapName === "vi-command" && sequence === "0" && countDigits) {
+    countDigits += sequence;
+
+    return;
+  }
+
+  const keymap = keymaps[keymapName];
+
+  pendingSequence += sequence;
+
+  const name = keymap.get(pendingSequence);
+
+  if (name !== undefined) {
+    const keys = pendingSequence;
+
+    pendingSequence = "";
+    runFunction(name, keys);
+
+    return;
+  }
+
+  if ([...keymap.keys()].some(bound => bound.startsWith(pendingSequence))) {
+    return;
+  }
+
+  // Like readline, a sequence that started like a binding but matches none is dropped
+  const unfinished = pendingSequence !== sequence;
+
+  pendingSequence = "";
+
+  if (unfinished) {
+    return;
+  }
+
+  // Escape typed quickly before another key arrives as one Meta key
+  if (keymapName === "vi-insert" && /^\x1b[^\x1b[O]$/.test(sequence)) {
+    runFunction("vi-movement-mode", "\x1b");
+    handleKey(sequence[1], { name: sequence[1], sequence: sequence[1] });
+
+    return;
+  }
+
+  if (keymapName === "vi-command" && isPrintable(sequence)) {
+    pendingOperator = null;
+    countDigits = "";
+
+    return;
+  }
+
+  session.forward(text, key);
+}
+
+function runFunction(name: string, key: string): void {
+  if (name === "digit-argument") {
+    countDigits += key;
+
+    return;
+  }
+
+  const count = parseInt(countDigits || "1", 10);
+
+  countDigits = "";
+
+  if (MOTIONS[name]) {
+    moveBy(MOTIONS[name], count * (pendingOperator?.count ?? 1), key, name);
+  } else if (pendingOperator && !OPERATORS.includes(name)) {
+    // Like vi, an operator followed by anything but a motion does nothing
+    pendingOperator = null;
+  } else if (EDITOR_FUNCTIONS[name]) {
+    EDITOR_FUNCTIONS[name](key, count);
+  } else if (READLINE_KEYS[name]) {
+    // Readline recalls commands starting with the text before the cursor, which
+    // vi's cursor cuts short; vi recalls whole commands
+    if (commandMode && /^(previous|next)-history$/.test(name)) {
+      setLine("", 0);
+    }
+
+    session?.forward(undefined, READLINE_KEYS[name]);
+  }
+
+  if (commandMode) {
+    withLine((line, cursor) => {
+      if (cursor > 0 && cursor >= line.length) {
+        moveCursor(line.length - 1);
+      }
+    });
+  }
+}
+
+/**
+ * Applies a motion count times: moves the cursor, or gives the pending
+ * operator its range.
+ */
+function moveBy(motion: Motion, count: number, key: string, name = ""): void {
+  withLine((line, cursor) => {
+    const bigWord = name === "vi-fWord";
+    // Like vi, cw changes to the end of the word the cursor is on rather than up to the next one
+    const changeWord = pendingOperator?.key === "c" && /^vi-f[wW]ord$/.test(name) && /\S/.test(line[cursor] ?? "");
+    const step: Motion = changeWord
+      ? (text, position) => ({
+        position: position === cursor && isWordEnd(text, position, bigWord) ? position : wordEnd(text, position, bigWord),
+        inclusive: true
+      })
+      : motion;
+    let target: MotionTarget | null = { position: cursor, inclusive: false };
+
+    for (let i = 0; i < count && target; i++) {
+      target = step(line, target.position, key);
+    }
+
+    const operator = pendingOperator;
+
+    pendingOperator = null;
+
+    if (!target) {
+      return;
+    }
+
+    const position = Math.min(Math.max(target.position, 0), line.length);
+
+    if (!operator) {
+      moveCursor(position);
+
+      return;
+    }
+
+    const forward = position >= cursor;
+
+    operate(
+      operator.key,
+      Math.min(cursor, position),
+      Math.min(Math.max(cursor, position) + (target.inclusive && forward ? 1 : 0), line.length)
+    );
+  });
+}
+
+/**
+ * Starts an operator, or applies it at once: doubled (dd, cc, yy) to the
+ * whole line, as a capital (D, C, Y) to the end of the line.
+ */
+function startOperator(key: string, count: number): void {
+  withLine((line, cursor) => {
+    if (key !== key.toLowerCase()) {
+      operate(key.toLowerCase(), cursor, line.length);
+    } else if (pendingOperator?.key === key) {
+      pendingOperator = null;
+      operate(key, 0, line.length);
+    } else {
+      pendingOperator = { key, count };
+    }
+  });
+}
+
+/**
+ * Deletes (d), changes (c) or yanks (y) part of the line.
+ */
+function operate(operator: string, start: number, end: number): void {
+  withLine(line => {
+    register = line.slice(start, end);
+
+    if (operator === "y") {
+      moveCursor(start);
+
+      return;
+    }
+
+    saveUndo();
+    setLine(line.slice(0, start) + line.slice(end), start);
+
+    if (operator === "c") {
+      commandMode = false;
+    }
+  });
+}
+
+function enterCommandMode(): void {
+  commandMode = true;
+  pendingOperator = null;
+  countDigits = "";
+  withLine((line, cursor) => moveCursor(cursor - 1));
+}
+
+function enterInsertMode(position: (cursor: number, line: string) => number): void {
+  withLine((line, cursor) => {
+    saveUndo();
+    moveCursor(position(cursor, line));
+    commandMode = false;
+  });
+}
+
+/**
+ * Opens the line in $VISUAL or $EDITOR and runs the result as if it had
+ * been typed.
+ */
+function editAndExecute(): void {
+  withLine(line => {
+    const edited = editInEditor(line, getVariable("VISUAL") || getVariable("EDITOR") || "vi");
+
+    setLine("", 0);
+
+    if (edited === null || edited.trim() === "") {
+      session?.rl.prompt(true);
+
+      return;
+    }
+
+    session?.rl.write(edited.replace(/\n+$/, ""));
+    session?.forward(undefined, READLINE_KEYS["accept-line"]);
+  });
+}
+
+function resetLineState(): void {
+  commandMode = false;
+  pendingSequence = "";
+  countDigits = "";
+  pendingOperator = null;
+  awaitingChar = null;
+  undoStack = [];
+}
+
+function saveUndo(): void {
+  withLine((line, cursor) => undoStack.push({ line, cursor }));
+}
+
+/**
+ * Runs an edit with the current line and cursor position.
+ */
+function withLine(edit: (line: string, cursor: number) => void): void {
+  if (session) {
+    edit(session.rl.line, session.rl.cursor);
+  }
+}
+
+/**
+ * Replaces the line through readline's own keys, so that it redraws it.
+ */
+function setLine(text: string, cursor: number): void {
+  session?.forward(undefined, { ctrl: true, name: "e" });
+  session?.forward(undefined, { ctrl: true, name: "u" });
+  session?.rl.write(text);
+  moveCursor(cursor);
+}
+
+function moveCursor(target: number): void {
+  withLine((line, cursor) => {
+    const position = Math.min(Math.max(target, 0), line.length);
+    const name = position < cursor ? "left" : "right";
+
+    for (let i = Math.abs(position - cursor); i > 0; i--) {
+      session?.forward(undefined, { name });
+    }
+  });
+}
+
+/**
+ * Finds the target of f, F, t or T: the next (or previous) occurrence of a
+ * character, or the position just before (after) it.
+ */
+function findChar(line: string, cursor: number, key: string, char: string): MotionTarget | null {
+  const backward = key === "F" || key === "T";
+  const index = backward ? line.lastIndexOf(char, cursor - 1) : line.indexOf(char, cursor + 1);
+
+  if (index < 0 || (backward && cursor === 0)) {
+    return null;
+  }
+
+  const position = key === "t" ? index - 1 : key === "T" ? index + 1 : index;
+
+  return { position, inclusive: !backward };
+}
+
+/**
+ * Classifies a character for word motions: 0 for blanks, then 1 for word
+ * characters and 2 for punctuation. Big words (W, B, E) only tell blanks
+ * from the rest.
+ */
+function charClass(char: string | undefined, bigWord: boolean): number {
+  if (char === undefined || /\s/.test(char)) {
+    return 0;
+  }
+
+  return bigWord || /\w/.test(char) ? 1 : 2;
+}
+
+function nextWordStart(line: string, cursor: number, bigWord: boolean): number {
+  const currentClass = charClass(line[cursor], bigWord);
+  let i = cursor;
+
+  while (currentClass !== 0 && i < line.length && charClass(line[i], bigWord) === currentClass) {
+    i++;
+  }
+
+  while (i < line.length && charClass(line[i], bigWord) === 0) {
+    i++;
+  }
+
+  return i;
+}
+
+function previousWordStart(line: string, cursor: number, bigWord: boolean): number {
+  let i = cursor - 1;
+
+  while (i > 0 && charClass(line[i], bigWord) === 0) {
+    i--;
+  }
+
+  while (i > 0 && charClass(line[i - 1], bigWord) === charClass(line[i], bigWord)) {
+    i--;
+  }
+
+  return Math.max(i, 0);
+}
+
+function wordEnd(line: string, cursor: number, bigWord: boolean): number {
+  let i = cursor + 1;
+
+  while (i < line.length && charClass(line[i], bigWord) === 0) {
+    i++;
+  }
+
+  while (i + 1 < line.length && charClass(line[i + 1], bigWord) === charClass(line[i], bigWord)) {
+    i++;
+  }
+
+  return Math.min(i, Math.max(line.length - 1, 0));
+}
+
+function isWordEnd(line: string, cursor: number, bigWord: boolean): boolean {
+  return charClass(line[cursor + 1], bigWord) !== charClass(line[cursor], bigWord);
+}
+
+function currentKeymap(): KeymapName | null {
+  if (getOption("vi")) {
+    return commandMode ? "vi-command" : "vi-insert";
+  }
+
+  return getOption("emacs") ? "emacs" : null;
+}
+
+function getFunctionNames(): string[] {
+  return [
+    ...Object.keys(READLINE_KEYS),
+    ...Object.keys(MOTIONS),
+    ...Object.keys(EDITOR_FUNCTIONS),
+    ...OPERATORS.filter(name => !Object.hasOwn(EDITOR_FUNCTIONS, name)),
+    "digit-argument"
+  ].filter((name, index, names) => names.indexOf(name) === index).sort();
+}
+
+function buildKeymap(name: KeymapName): Map<string, string> {
+  return new Map(DEFAULT_BINDINGS[name].map(([sequence, functionName]) => [parseKeySequence(sequence), functionName]));
+}
+
+/**
+ * Turns a key sequence written with readline's escapes into the characters
+ * the terminal sends.
+ *
+ * @example
+ * parseKeySequence("\\C-x\\C-e")   // "\x18\x05"
+ */
+function parseKeySequence(text: string): string {
+  let i = 0;
+
+  // \C- and \M- apply to the character after them, which may itself be an escape
+  const readChar = (): string => {
+    if (text[i] !== "\\") {
+      return text[i++] ?? "";
+    }
+
+    const rest = text.slice(i + 1);
+    const octal = /^[0-7]{1,3}/.exec(rest);
+    const hex = /^x([0-9a-fA-F]{1,2})/.exec(rest);
+
+    if (rest.startsWith("C-") || rest.startsWith("M-")) {
+      i += 3;
+
+      const char = readChar();
+
+      return rest[0] === "M" ? `\x1b${char}` : char === "?" ? "\x7f" : String.fromCharCode(char.toUpperCase().charCodeAt(0) & 0x1f);
+    }
+
+    if (octal || hex) {
+      i += 1 + (octal ?? hex)![0].length;
+
+      return String.fromCharCode(octal ? parseInt(octal[0], 8) : parseInt(hex![1], 16));
+    }
+
+    i += 2;
+
+    return KEY_ESCAPES[rest[0]] ?? rest[0] ?? "\\";
+  };
+
+  let sequence = "";
+
+  while (i < text.length) {
+    sequence += readChar();
+  }
+
+  return sequence;
+}
+
+/**
+ * Writes a key sequence back with readline's escapes, for bind -p.
+ *
+ * @example
+ * formatKeySequence("\x18\x05")   // "\\C-x\\C-e"
+ */
+function formatKeySequence(sequence: string): string {
+  return [...sequence].map(char => {
+    const code = char.charCodeAt(0);
+
+    if (char === "\x1b") {
+      return "\\e";
+    }
+
+    if (code === 0x7f) {
+      return "\\C-?";
+    }
+
+    if (code < 0x20) {
+      return `\\C-${String.fromCharCode(code + 0x60)}`;
+    }
+
+    return char === "\"" || char === "\\" ? `\\${char}` : char;
+  }).join("");
+}
+
+function isPrintable(sequence: string): boolean {
+  return [...sequence].length === 1 && !/[\x00-\x1f\x7f]/.test(sequence);
+}
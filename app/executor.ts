@@ -3,9 +3,16 @@
  * 
  * Core execution engine using reactive streams. Handles:
  * - Builtin vs external command routing
- * - I/O redirection (stdout, stderr)
+ * - I/O redirection of any standard stream (see redirection.ts)
  * - Pipeline detection and delegation
+ * - Command lists with &&, || and ;, and pipelines negated with !
+ * - Compound commands (if, while, until, for, case, { }), delegated to the interpreter
+ * - Function definitions and calls, which take precedence over builtins and PATH
+ * - Word expansion and NAME=value prefix assignments
+ * - Command substitution with captured output
+ * - Foreground and background jobs (&), the latter run as subshells
  * - Asynchronous process spawning
+ * - Exit status tracking ($?)
  * 
  * Reactive patterns:
  * - Observable-based command execution
@@ -14,292 +21,407 @@
  * - Non-blocking process management
  */
 
-import { Observable, of, from } from "rxjs";
-import { map, tap, catchError } from "rxjs/operators";
-import { promises as fs } from "node:fs";
-import path from "node:path";
+import { Observable, of, from, defer, throwError } from "rxjs";
+import { map, tap, catchError, switchMap, concatMap, last, toArray } from "rxjs/operators";
 import { spawn } from "node:child_process";
-import { isBuiltin, executeBuiltin$, findCommand } from "./builtins";
+import { isBuiltin, executeBuiltin$ } from "./builtins";
+import { hashCommand } from "./hash";
 import { executePipeline$ } from "./pipeline";
+import { parseCommandList } from "./parser";
+import type { CommandListEntry, Command } from "./parser";
+import { expandCommand$, ExpansionError } from "./expansion";
+import { executeCompoundCommand$, interruptsList } from "./interpreter";
+import type { LoopControl } from "./interpreter";
+import { standardIO, createOutputCapture, spawnStdio, connectStdio } from "./io";
+import type { CommandIO } from "./io";
+import { withRedirections$ } from "./redirection";
+import { getLastExitStatus, setLastExitStatus, setPipeStatus, toExitStatus } from "./status";
+import { splitAssignments, setVariable, setArray, buildEnvironment } from "./variables";
+import { defineFunction, getFunction, executeFunction$ } from "./functions";
+import { executeSourceCommand$ } from "./script";
+import { executeFcCommand$ } from "./fc";
+import { createJob, runJob$, trackProcess } from "./jobs";
+import { runInSubshell$, withinSubshellContext$ } from "./subshell";
+import { isInteractive } from "./options";
 
 export interface CommandResult {
   output?: string;
   newLastAppendedIndex?: number;
+  exitCode: number;
+  shouldExit?: boolean;
+  // Status of every pipeline stage, left to right
+  pipeStatus?: number[];
+  // Set by break and continue
+  loopControl?: LoopControl;
+  // Set by return, until the function call ends
+  functionReturn?: boolean;
+  // Set once Ctrl-C has interrupted the job the command ran in
+  interrupted?: boolean;
 }
 
-export function executeCommand$(
-  parts: string[], 
-  commandHistory: string[], 
-  lastAppendedIndex: number
+/**
+ * Executes a command list. Each and-or list (commands joined by `&&`/`||`)
+ * runs as a job: in the foreground by default, or in the background when
+ * terminated by `&`. Commands nested inside a running job, such as command
+ * substitutions, join that job instead of starting a new one.
+ * 
+ * @param entries - Commands produced by parseCommandList
+ * @param commandHistory - Shell command history for builtin commands
+ * @param lastAppendedIndex - History tracking index
+ * @param io - Where the commands' output goes
+ * @returns Observable that emits the result of the last command that ran
+ */
+export function executeCommandList$(
+  entries: CommandListEntry[],
+  commandHistory: string[],
+  lastAppendedIndex: number,
+  io: CommandIO = standardIO
 ): Observable<CommandResult> {
-  
-  // Check for pipeline
-  const pipeIndices = parts
-    .map((part, index) => part === "|" ? index : -1)
-    .filter(index => index !== -1);
-  
-  if (pipeIndices.length > 0) {
-    return executePipeline$(parts, pipeIndices, commandHistory, lastAppendedIndex);
+  const initial: CommandResult = { exitCode: getLastExitStatus(), newLastAppendedIndex: lastAppendedIndex };
+
+  return splitAndOrLists(entries).reduce<Observable<CommandResult>>(
+    (previous$, andOrList) => previous$.pipe(
+      switchMap(previous => {
+        if (interruptsList(previous)) {
+          return of(previous);
+        }
+
+        const historyIndex = previous.newLastAppendedIndex ?? lastAppendedIndex;
+        const background = andOrList[andOrList.length - 1].background;
+
+        if (io.job && !background) {
+          return executeAndOrList$(andOrList, commandHistory, historyIndex, io);
+        }
+
+        const job = createJob(formatAndOrList(andOrList), background);
+
+        return runJob$(job, executeAndOrList$(andOrList, commandHistory, historyIndex, { ...io, job, context: job.context ?? io.context }));
+      }),
+      tap(result => setLastExitStatus(result.exitCode))
+    ),
+    of(initial)
+  );
+}
+
+/**
+ * Groups a command list into and-or lists, which are separated by `;` and `&`.
+ */
+function splitAndOrLists(entries: CommandListEntry[]): CommandListEntry[][] {
+  const lists: CommandListEntry[][] = [];
+
+  for (const entry of entries) {
+    if (entry.operator === "&&" || entry.operator === "||") {
+      lists[lists.length - 1].push(entry);
+    } else {
+      lists.push([entry]);
+    }
   }
-  
-  // Parse redirection
-  const { cmdParts, redirectFile, appendFile, stderrRedirectFile, stderrAppendFile } = 
-    parseRedirection(parts);
-  
-  const command = cmdParts[0];
-  
-  return executeSimpleCommand$(
-    command, 
-    cmdParts, 
-    commandHistory, 
-    lastAppendedIndex,
-    { redirectFile, appendFile, stderrRedirectFile, stderrAppendFile }
+
+  return lists;
+}
+
+/**
+ * Reconstructs the text of an and-or list for job listings.
+ */
+function formatAndOrList(andOrList: CommandListEntry[]): string {
+  return andOrList
+    .map((entry, index) => index === 0 ? entry.command : `${entry.operator} ${entry.command}`)
+    .join(" ");
+}
+
+/**
+ * Executes an and-or list, honouring the short-circuit rules of `&&` and `||`.
+ * 
+ * Operators are evaluated left to right with equal precedence, as in bash:
+ * `a && b || c` runs c when either a or b fails. The exit status of every
+ * command that runs is recorded as `$?` before the next one is expanded.
+ * A failed expansion skips only its own command, with status 1, except that
+ * `${x:?}` ends a non-interactive shell.
+ * 
+ * @param andOrList - Commands joined by `&&` and `||`
+ * @param commandHistory - Shell command history for builtin commands
+ * @param lastAppendedIndex - History tracking index
+ * @param io - Where the commands' output goes
+ * @returns Observable that emits the result of the last command that ran
+ */
+function executeAndOrList$(
+  andOrList: CommandListEntry[],
+  commandHistory: string[],
+  lastAppendedIndex: number,
+  io: CommandIO
+): Observable<CommandResult> {
+  const initial: CommandResult = { exitCode: getLastExitStatus(), newLastAppendedIndex: lastAppendedIndex };
+
+  return andOrList.reduce<Observable<CommandResult>>(
+    (previous$, entry) => previous$.pipe(
+      switchMap(previous => {
+        const skip = interruptsList(previous)
+          || (entry.operator === "&&" && previous.exitCode !== 0)
+          || (entry.operator === "||" && previous.exitCode === 0);
+
+        if (skip) {
+          return of(previous);
+        }
+
+        const historyIndex = previous.newLastAppendedIndex ?? lastAppendedIndex;
+
+        // Expand lazily so $? and assignments reflect the command that just finished
+        return withinSubshellContext$(io.context, () => from(entry.pipeline).pipe(
+          concatMap(command => expandCommand$(
+            command,
+            substitution => captureCommandOutput$(substitution, commandHistory, historyIndex, io)
+          )),
+          toArray(),
+          switchMap(pipeline => executeCommand$(pipeline, commandHistory, historyIndex, io)),
+          map(result => entry.negated ? { ...result, exitCode: result.exitCode === 0 ? 1 : 0 } : result),
+          // Ctrl-C stops the rest of the job, as it would have killed a forked shell
+          map(result => io.job?.interrupted ? { ...result, interrupted: true } : result),
+          catchError(error => {
+            if (!(error instanceof ExpansionError)) {
+              return throwError(() => error);
+            }
+
+            console.error(error.message);
+
+            // ${x:?} ends a script, as in bash
+            return of<CommandResult>({ exitCode: 1, newLastAppendedIndex: historyIndex, shouldExit: error.fatal && !isInteractive() });
+          }),
+          tap(result => {
+            setLastExitStatus(result.exitCode);
+            setPipeStatus(result.pipeStatus ?? [result.exitCode]);
+          })
+        ));
+      })
+    ),
+    of(initial)
   );
 }
 
-function executeSimpleCommand$(
+/**
+ * Runs the inner command of a command substitution and emits its stdout.
+ * 
+ * The command goes through the normal list/pipeline path with its output
+ * captured in memory. It runs as a subshell (see subshell.ts), so the
+ * variables, functions, options and directory it changes are put back once
+ * it finishes. Its processes join the job of the command it is part of,
+ * and it starts from that command's subshell context.
+ * 
+ * @param command - Text between $( and ) or between backquotes
+ * @param commandHistory - Shell command history for builtin commands
+ * @param lastAppendedIndex - History tracking index
+ * @param outerIO - I/O of the command being expanded
+ * @returns Observable that emits the captured output
+ */
+function captureCommandOutput$(
   command: string,
-  cmdParts: string[],
   commandHistory: string[],
   lastAppendedIndex: number,
-  redirection: {
-    redirectFile?: string;
-    appendFile?: string;
-    stderrRedirectFile?: string;
-    stderrAppendFile?: string;
-  }
+  outerIO: CommandIO
+): Observable<string> {
+  return defer(() => {
+    const capture = createOutputCapture();
+    const io: CommandIO = { ...capture.io, job: outerIO.job, context: outerIO.context };
+
+    return runInSubshell$(() => executeCommandList$(parseCommandList(command), commandHistory, lastAppendedIndex, io).pipe(
+      last()
+    )).pipe(
+      map(() => capture.read())
+    );
+  });
+}
+
+/**
+ * Executes a pipeline whose words and redirections have been expanded.
+ * A single command runs directly; longer pipelines are delegated to the
+ * pipeline executor, which runs each stage through executeStage$.
+ * 
+ * @param pipeline - Expanded pipeline stages
+ * @param commandHistory - Shell command history for builtin commands
+ * @param lastAppendedIndex - History tracking index
+ * @param io - The pipeline's standard streams before redirection
+ * @returns Observable that emits the result of the last stage
+ */
+export function executeCommand$(
+  pipeline: Command[], 
+  commandHistory: string[], 
+  lastAppendedIndex: number,
+  io: CommandIO = standardIO
 ): Observable<CommandResult> {
   
-  if (isBuiltin(command)) {
-    return executeBuiltinCommand$(cmdParts, commandHistory, lastAppendedIndex, redirection);
+  if (pipeline.length > 1) {
+    return executePipeline$(
+      pipeline,
+      (command, historyIndex, stageIO) => executeStage$(command, commandHistory, historyIndex, stageIO),
+      lastAppendedIndex,
+      io
+    );
   }
   
-  return executeExternalCommand$(cmdParts, redirection);
+  return executeStage$(pipeline[0], commandHistory, lastAppendedIndex, io);
 }
 
-function executeBuiltinCommand$(
-  cmdParts: string[],
+/**
+ * Executes one command with its redirections and NAME=value prefixes applied.
+ * Compound commands are run by the interpreter, which comes back here
+ * through executeCommandList$ for the lists inside them.
+ */
+function executeStage$(
+  command: Command,
   commandHistory: string[],
   lastAppendedIndex: number,
-  redirection: any
+  io: CommandIO
 ): Observable<CommandResult> {
-  
-  const command = cmdParts[0];
-  
-  if (command === "echo") {
-    const output = cmdParts.slice(1).join(" ");
-    return handleOutput$(output, redirection).pipe(
-      map(() => ({ newLastAppendedIndex: lastAppendedIndex }))
-    );
-  }
-  
-  if (command === "pwd") {
-    return of(null).pipe(
-      tap(() => console.log(process.cwd())),
-      map(() => ({ newLastAppendedIndex: lastAppendedIndex }))
-    );
+  if (command.type === "function") {
+    return defer(() => {
+      defineFunction(command);
+
+      return of({ newLastAppendedIndex: lastAppendedIndex, exitCode: 0 });
+    });
   }
-  
-  if (command === "cd") {
-    return of(null).pipe(
-      tap(() => {
-        let targetDir = cmdParts[1];
-        if (targetDir === "~") {
-          targetDir = process.env.HOME || "";
-        }
-        try {
-          process.chdir(targetDir);
-        } catch {
-          console.log(`cd: ${cmdParts[1]}: No such file or directory`);
-        }
-      }),
-      map(() => ({ newLastAppendedIndex: lastAppendedIndex }))
+
+  // Files are opened asynchronously; a background job's command still runs in its own state
+  return withRedirections$(command.redirections, io, redirectedIO => withinSubshellContext$(io.context, () => {
+    if (command.type !== "simple") {
+      return executeCompoundCommand$(
+        command,
+        (list, historyIndex, listIO) => executeCommandList$(list, commandHistory, historyIndex, listIO),
+        substitution => captureCommandOutput$(substitution, commandHistory, lastAppendedIndex, redirectedIO),
+        lastAppendedIndex,
+        redirectedIO
+      );
+    }
+
+    // Separate NAME=value prefixes from the command itself
+    const { assignments, args } = splitAssignments(command.words);
+    
+    if (args.length === 0) {
+      // Assignments alone set shell variables
+      for (const [name, value] of Object.entries(assignments)) {
+        setVariable(name, value);
+      }
+
+      for (const array of command.arrays ?? []) {
+        setArray(array.name, array.items);
+      }
+
+      return of({ newLastAppendedIndex: lastAppendedIndex, exitCode: 0 });
+    }
+
+    const definition = getFunction(args[0]);
+
+    if (definition) {
+      return executeFunction$(
+        definition,
+        args.slice(1),
+        assignments,
+        () => expandCommand$(
+          definition.body,
+          substitution => captureCommandOutput$(substitution, commandHistory, lastAppendedIndex, redirectedIO)
+        ).pipe(
+          switchMap(body => executeStage$(body, commandHistory, lastAppendedIndex, redirectedIO))
+        )
+      );
+    }
+    
+    return executeSimpleCommand$(
+      args[0], 
+      args, 
+      commandHistory, 
+      lastAppendedIndex,
+      buildEnvironment(assignments),
+      redirectedIO
     );
-  }
-  
-  if (command === "type") {
-    return executeTypeCommand$(cmdParts[1]).pipe(
-      map(() => ({ newLastAppendedIndex: lastAppendedIndex }))
+  }));
+}
+
+function executeSimpleCommand$(
+  command: string,
+  cmdParts: string[],
+  commandHistory: string[],
+  lastAppendedIndex: number,
+  env: NodeJS.ProcessEnv,
+  io: CommandIO
+): Observable<CommandResult> {
+
+  // Sourced files run through the command list path, like the shell's own input
+  if (command === "source" || command === ".") {
+    return executeSourceCommand$(
+      command,
+      cmdParts.slice(1),
+      (list, historyIndex) => executeCommandList$(list, commandHistory, historyIndex, io),
+      lastAppendedIndex,
+      io
     );
   }
   
-  if (command === "history") {
-    return executeBuiltin$(cmdParts, commandHistory, lastAppendedIndex).pipe(
-      tap(({ result }) => {
-        if (result) process.stdout.write(result);
-      }),
-      map(({ newLastAppendedIndex }) => ({ newLastAppendedIndex }))
+  // fc runs the commands it picks from the history like sourced ones
+  if (command === "fc") {
+    return executeFcCommand$(
+      cmdParts.slice(1),
+      io,
+      commandHistory,
+      lastAppendedIndex,
+      (list, historyIndex) => executeCommandList$(list, commandHistory, historyIndex, io)
     );
   }
-  
-  return of({ newLastAppendedIndex: lastAppendedIndex });
-}
 
-function executeTypeCommand$(targetCommand: string): Observable<void> {
-  if (isBuiltin(targetCommand)) {
-    return of(null).pipe(
-      tap(() => console.log(`${targetCommand} is a shell builtin`)),
-      map(() => void 0)
-    );
-  }
-  
-  const pathDirs = process.env.PATH?.split(path.delimiter) || [];
-  
-  for (const dir of pathDirs) {
-    const fullPath = path.join(dir, targetCommand);
-    try {
-      const stats = require("fs").statSync(fullPath);
-      if (stats.isFile() && (stats.mode & 0o111)) {
-        console.log(`${targetCommand} is ${fullPath}`);
-        return of(void 0);
-      }
-    } catch {}
+  if (isBuiltin(command)) {
+    return executeBuiltin$(cmdParts, commandHistory, lastAppendedIndex, io);
   }
   
-  console.log(`${targetCommand}: not found`);
-  return of(void 0);
+  return executeExternalCommand$(cmdParts, env, io);
 }
 
 function executeExternalCommand$(
   cmdParts: string[],
-  redirection: any
+  env: NodeJS.ProcessEnv,
+  io: CommandIO
 ): Observable<CommandResult> {
   
   const command = cmdParts[0];
-  const cmdPath = findCommand(command);
+  const cmdPath = hashCommand(command);
   
   if (!cmdPath) {
     return of(null).pipe(
-      tap(() => console.log(`${command}: command not found`)),
-      map(() => ({}))
+      tap(() => io.stderr.write(`${command}: command not found\n`)),
+      map(() => ({ exitCode: 127 }))
     );
   }
   
-  return executeProcess$(cmdPath, cmdParts.slice(1), command, redirection);
+  return executeProcess$(cmdPath, cmdParts.slice(1), command, env, io);
 }
 
 function executeProcess$(
   cmdPath: string,
   args: string[],
   command: string,
-  redirection: any
+  env: NodeJS.ProcessEnv,
+  io: CommandIO
 ): Observable<CommandResult> {
   return new Observable<CommandResult>(subscriber => {
-    let stdio: any = "inherit";
-    
-    if (redirection.redirectFile || redirection.appendFile) {
-      stdio = ["inherit", "pipe", "inherit"];
-    } else if (redirection.stderrRedirectFile || redirection.stderrAppendFile) {
-      stdio = ["inherit", "inherit", "pipe"];
-    }
+    const child = spawn(cmdPath, args, {
+      argv0: command,
+      stdio: spawnStdio(io),
+      env,
+      detached: io.job?.detached ?? false
+    });
     
-    const child = spawn(cmdPath, args, { argv0: command, stdio });
+    trackProcess(io.job, child);
+    io.processes?.push(child);
+    const forwarded = connectStdio(child, io);
     
-    if (redirection.redirectFile || redirection.appendFile) {
-      let output = "";
-      child.stdout?.on("data", (data) => {
-        output += data.toString();
-      });
-      
-      child.on("close", async () => {
-        try {
-          if (redirection.redirectFile) {
-            await fs.writeFile(redirection.redirectFile, output || "");
-          } else if (redirection.appendFile) {
-            await fs.appendFile(redirection.appendFile, output || "");
-          }
-        } catch (error) {
-          subscriber.error(error);
-          return;
-        }
-        subscriber.next({});
+    child.on("close", (code, signal) => {
+      forwarded.then(() => {
+        subscriber.next({ exitCode: toExitStatus(code, signal) });
         subscriber.complete();
       });
-    } else if (redirection.stderrRedirectFile || redirection.stderrAppendFile) {
-      let errorOutput = "";
-      child.stderr?.on("data", (data) => {
-        errorOutput += data.toString();
-      });
-      
-      child.on("close", async () => {
-        try {
-          if (redirection.stderrRedirectFile) {
-            await fs.writeFile(redirection.stderrRedirectFile, errorOutput || "");
-          } else if (redirection.stderrAppendFile) {
-            await fs.appendFile(redirection.stderrAppendFile, errorOutput || "");
-          }
-        } catch (error) {
-          subscriber.error(error);
-          return;
-        }
-
-        subscriber.next({});
-        subscriber.complete();
-      });
-    } else {
-      child.on("close", () => {
-        subscriber.next({});
-        subscriber.complete();
-      });
-    }
+    });
     
-    child.on("error", (error) => {
-      subscriber.error(error);
+    // The process could not be started, e.g. the file is not executable
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      io.stderr.write(`${command}: ${error.message}\n`);
+      subscriber.next({ exitCode: error.code === "ENOENT" ? 127 : 126 });
+      subscriber.complete();
     });
   });
 }
-
-function parseRedirection(parts: string[]) {
-  let redirectFile = "";
-  let appendFile = "";
-  let stderrRedirectFile = "";
-  let stderrAppendFile = "";
-  let cmdParts = parts;
-  
-  for (let i = 0; i < parts.length; i++) {
-    if (parts[i] === ">" || parts[i] === "1>") {
-      redirectFile = parts[i + 1];
-      cmdParts = parts.slice(0, i);
-
-      break;
-    } else if (parts[i] === ">>" || parts[i] === "1>>") {
-      appendFile = parts[i + 1];
-      cmdParts = parts.slice(0, i);
-
-      break;
-    } else if (parts[i] === "2>") {
-      stderrRedirectFile = parts[i + 1];
-      cmdParts = parts.slice(0, i);
-
-      break;
-    } else if (parts[i] === "2>>") {
-      stderrAppendFile = parts[i + 1];
-      cmdParts = parts.slice(0, i);
-
-      break;
-    }
-  }
-  
-  return { cmdParts, redirectFile, appendFile, stderrRedirectFile, stderrAppendFile };
-}
-
-function handleOutput$(output: string, redirection: any): Observable<void> {
-  if (redirection.redirectFile) {
-    return from(fs.writeFile(redirection.redirectFile, `${output}\n`));
-  } else if (redirection.appendFile) {
-    return from(fs.appendFile(redirection.appendFile, `${output}\n`));
-  } else if (redirection.stderrRedirectFile) {
-    console.log(output);
-    return from(fs.writeFile(redirection.stderrRedirectFile, ""));
-  } else if (redirection.stderrAppendFile) {
-    console.log(output);
-    return from(fs.access(redirection.stderrAppendFile)).pipe(
-      catchError(() => from(fs.writeFile(redirection.stderrAppendFile, ""))),
-      map(() => void 0)
-    );
-  } else {
-    console.log(output);
-
-    return of(void 0);
-  }
-}
@@ -0,0 +1,704 @@
+/**
+ * Word Expansion Module
+ *
+ * Expands the raw words and redirection targets of a command before it executes.
+ *
+ * Expansions, in order:
+ * - Tilde expansion: ~ and ~/path at the start of a word or assignment value
+ * - Parameter expansion: $NAME, ${NAME}, ${#NAME} and the ${NAME:-word} family
+ * - Special parameters: $?, $$ and $!
+ * - Positional parameters: $0, $1 ... ${10}, $#, $@ and $* ("$@" keeps one word per argument)
+ * - Array elements: ${NAME[n]}, ${NAME[@]} and ${#NAME[@]}, for arrays set
+ *   with NAME=(...) and PIPESTATUS ("${NAME[@]}" keeps one word per element)
+ * - Command substitution: $(command) and `command`
+ * - Field splitting: Unquoted expansion results are split on IFS
+ * - Pathname expansion: Unquoted *, ? and [...] match file names
+ * - Quote removal
+ *
+ * Here-documents with an unquoted delimiter get parameter expansion and
+ * command substitution, with quotes taken literally; here-strings expand
+ * like a double-quoted word.
+ *
+ * Quote behavior mirrors parseCommand:
+ * - Single quotes: No expansion at all
+ * - Double quotes: Parameters and substitutions expand, but results are not split
+ * - Backslash: Escapes the next character ($, `, ", \ and newline inside double quotes)
+ *
+ * The scanner is a generator: whenever it meets a command substitution it
+ * yields the inner command and resumes with that command's output. This
+ * keeps substitutions lazy (e.g. inside an unused ${NAME:-word}) and strictly
+ * left to right, while the scanner itself stays synchronous.
+ */
+
+import { Observable } from "rxjs";
+import type { Subscription } from "rxjs";
+import { findExpansionEnd } from "./parser";
+import type { Command, Redirection } from "./parser";
+import { expandPathname } from "./glob";
+import { getLastExitStatus, getPipeStatus } from "./status";
+import { getLastBackgroundPid } from "./jobs";
+import { getVariable, getArray, setVariable, isAssignment, isValidName } from "./variables";
+import { getScriptName, getPositionalParameters } from "./parameters";
+
+/**
+ * A piece of an expanded word. Quote state is kept per fragment so later
+ * phases know which characters came from quoted text.
+ */
+export interface WordFragment {
+  text: string;
+  quoted: boolean;
+  expanded: boolean;
+  // Set by "$@": each element becomes its own field
+  fields?: string[];
+}
+
+/**
+ * Raised when a parameter expansion cannot be performed, e.g. `${x!}` or `${x:?}`.
+ * A fatal error, as raised by `${x:?}`, also ends a non-interactive shell.
+ */
+export class ExpansionError extends Error {
+  fatal: boolean;
+
+  constructor(message: string, fatal = false) {
+    super(message);
+    this.name = "ExpansionError";
+    this.fatal = fatal;
+  }
+}
+
+/**
+ * Runs a command for command substitution and emits its captured stdout.
+ */
+export type CommandSubstituter = (command: string) => Observable<string>;
+
+// Yields a command to substitute, resumes with its output
+type Expansion<T> = Generator<string, T, string>;
+
+const DOUBLE_QUOTE_ESCAPABLE = ["$", "`", '"', "\\", "\n"];
+const BACKQUOTE_ESCAPABLE = ["$", "`", "\\"];
+const HERE_DOCUMENT_ESCAPABLE = ["$", "`", "\\", "\n"];
+const DEFAULT_IFS = " \t\n";
+
+/**
+ * Expands a command's raw words into the final argument list, and its
+ * redirection targets into file names. Compound commands only have their
+ * redirections expanded; their contents expand as they run.
+ *
+ * Leading NAME=value words are treated as assignments: their values get
+ * tilde expansion after `=` and `:` and are never split or globbed.
+ * A redirection target must expand to exactly one word.
+ *
+ * @param command - Command as parsed by parseCommandList, quotes still in place
+ * @param substitute - Runs the inner command of $(...) and `...`
+ * @returns Observable of the expanded command with quotes removed
+ * @throws ExpansionError (as an Observable error) for failed or ambiguous expansions
+ *
+ * @example
+ * // With HOME=/home/me and NAME unset
+ * expandCommand$({ type: "simple", words: ["echo", "~/src", '"${NAME:-world}"', "'$HOME'", "$(echo hi)"], redirections: [] }, substitute)
+ * // Emits: { type: "simple", words: ["echo", "/home/me/src", "world", "$HOME", "hi"], redirections: [] }
+ */
+export function expandCommand$<T extends Command>(command: T, substitute: CommandSubstituter): Observable<T> {
+  return runExpansion$(expandAnyCommand(command), substitute);
+}
+
+/**
+ * Expands words into fields, with field splitting and pathname expansion
+ * but without treating NAME=value specially, as for the words of `for`.
+ *
+ * @param words - Raw words
+ * @param substitute - Runs the inner command of $(...) and `...`
+ * @returns Observable of the resulting fields
+ */
+export function expandWords$(words: string[], substitute: CommandSubstituter): Observable<string[]> {
+  return runExpansion$(expandAll(words, false), substitute);
+}
+
+/**
+ * Expands a word to a single string, without field splitting or pathname
+ * expansion, as for the subject of `case`.
+ *
+ * @param raw - Raw word
+ * @param substitute - Runs the inner command of $(...) and `...`
+ * @returns Observable of the expanded text
+ */
+export function expandWord$(raw: string, substitute: CommandSubstituter): Observable<string> {
+  return runExpansion$(expandToString(raw), substitute);
+}
+
+/**
+ * Expands a `case` pattern. The fragments keep their quote state, so that
+ * quoted wildcards match literally (see matchesPattern).
+ *
+ * @param raw - Raw pattern word
+ * @param substitute - Runs the inner command of $(...) and `...`
+ * @returns Observable of the pattern's fragments
+ */
+export function expandPattern$(raw: string, substitute: CommandSubstituter): Observable<WordFragment[]> {
+  return runExpansion$(scanWord(raw, false), substitute);
+}
+
+/**
+ * Drives an expansion generator, running each command it yields and
+ * feeding the output back in until the generator returns.
+ */
+function runExpansion$<T>(expansion: Expansion<T>, substitute: CommandSubstituter): Observable<T> {
+  return new Observable<T>(subscriber => {
+    let subscription: Subscription | undefined;
+
+    const step = (output?: string) => {
+      let next: IteratorResult<string, T>;
+
+      try {
+        next = output === undefined ? expansion.next() : expansion.next(output);
+      } catch (error) {
+        subscriber.error(error);
+
+        return;
+      }
+
+      if (next.done) {
+        subscriber.next(next.value);
+        subscriber.complete();
+
+        return;
+      }
+
+      subscription = substitute(next.value).subscribe({
+        next: commandOutput => step(commandOutput),
+        error: error => subscriber.error(error)
+      });
+    };
+
+    step();
+
+    return () => subscription?.unsubscribe();
+  });
+}
+
+function* expandAnyCommand<T extends Command>(command: T): Expansion<T> {
+  const words = command.type === "simple" ? yield* expandAll(command.words, true) : [];
+  const redirections: Redirection[] = [];
+
+  for (const redirection of command.redirections) {
+    redirections.push(yield* expandRedirection(redirection));
+  }
+
+  if (command.type !== "simple") {
+    return { ...command, redirections };
+  }
+
+  const arrays: { name: string, items: string[] }[] = [];
+
+  for (const array of command.arrays ?? []) {
+    arrays.push({ name: array.name, items: yield* expandAll(array.items, false) });
+  }
+
+  return command.arrays ? { ...command, words, redirections, arrays } : { ...command, words, redirections };
+}
+
+function* expandToString(raw: string): Expansion<string> {
+  return joinFragments(yield* scanWord(raw, false));
+}
+
+function* expandRedirection(redirection: Redirection): Expansion<Redirection> {
+  const { operator, target, body = "" } = redirection;
+
+  if (operator === "<<" || operator === "<<-") {
+    // Any quoting in the delimiter turns off expansion of the body
+    return { ...redirection, body: /['"\\]/.test(target) ? body : yield* expandHereDocument(body) };
+  }
+
+  if (operator === "<<<") {
+    const text = yield* expandToString(target);
+
+    return { ...redirection, target: text, body: `${text}\n` };
+  }
+
+  return { ...redirection, target: yield* expandTarget(target) };
+}
+
+function* expandAll(rawWords: string[], assignments: boolean): Expansion<string[]> {
+  const result: string[] = [];
+  let commandStart = assignments;
+
+  for (const raw of rawWords) {
+    if (commandStart && isAssignment(raw)) {
+      result.push(joinFragments(yield* scanWord(raw, true)));
+
+      continue;
+    }
+
+    commandStart = false;
+
+    for (const field of splitFields(yield* scanWord(raw, false))) {
+      result.push(...expandPathname(field));
+    }
+  }
+
+  return result;
+}
+
+function* expandTarget(raw: string): Expansion<string> {
+  const fields = splitFields(yield* scanWord(raw, false)).flatMap(expandPathname);
+
+  if (fields.length !== 1) {
+    throw new ExpansionError(`${raw}: ambiguous redirect`);
+  }
+
+  return fields[0];
+}
+
+/**
+ * Expands the body of a here-document. Parameters and command substitutions
+ * expand without field splitting, a backslash only escapes $, `, \ and
+ * newline, and quote characters have no special meaning.
+ */
+function* expandHereDocument(body: string): Expansion<string> {
+  let result = "";
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+
+    if (char === "\\" && HERE_DOCUMENT_ESCAPABLE.includes(body[i + 1])) {
+      result += body[i + 1] === "\n" ? "" : body[i + 1];
+      i++;
+    } else if ((char === "$" && body[i + 1] === "(") || char === "`") {
+      const end = findExpansionEnd(body, i);
+
+      if (end === -1) {
+        throw new ExpansionError(`unexpected EOF while looking for matching \`${char === "`" ? "`" : ")"}'`);
+      }
+
+      const command = char === "`" ? unescapeBackquoted(body.slice(i + 1, end)) : body.slice(i + 2, end);
+      const output: string = yield command;
+
+      result += output.replace(/\n+$/, "");
+      i = end;
+    } else if (char === "$") {
+      const { fragments, end } = yield* expandParameter(body, i, true);
+
+      result += joinFragments(fragments);
+      i = end;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Concatenates the fragments of a field into the final argument string.
+ */
+function joinFragments(fragments: WordFragment[]): string {
+  return fragments.map(fragment => fragment.text).join("");
+}
+
+/**
+ * Walks a raw word, performing tilde, parameter and command substitution
+ * expansion plus quote removal.
+ *
+ * @param raw - Word with its quotes still in place
+ * @param assignment - Whether the word is a NAME=value assignment
+ * @returns Fragments of the expanded word
+ */
+function* scanWord(raw: string, assignment: boolean): Expansion<WordFragment[]> {
+  const fragments: WordFragment[] = [];
+  let inDouble = false;
+
+  const literal = (text: string, quoted: boolean) => {
+    const last = fragments[fragments.length - 1];
+
+    if (last && !last.expanded && last.quoted === quoted) {
+      last.text += text;
+    } else {
+      fragments.push({ text, quoted, expanded: false });
+    }
+  };
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (char === "'" && !inDouble) {
+      // Single quotes: everything up to the closing quote is literal
+      const end = raw.indexOf("'", i + 1);
+      const stop = end === -1 ? raw.length : end;
+
+      literal(raw.slice(i + 1, stop), true);
+      i = stop;
+    } else if (char === '"') {
+      // Mark the quote so that "" still produces an (empty) field
+      inDouble = !inDouble;
+      literal("", true);
+    } else if (char === "\\" && i + 1 < raw.length) {
+      const nextChar = raw[i + 1];
+
+      if (!inDouble || DOUBLE_QUOTE_ESCAPABLE.includes(nextChar)) {
+        literal(nextChar === "\n" ? "" : nextChar, true);
+        i++;
+      } else {
+        literal(char, true);
+      }
+    } else if ((char === "$" && raw[i + 1] === "(") || char === "`") {
+      const end = findExpansionEnd(raw, i);
+
+      if (end === -1) {
+        throw new ExpansionError(`unexpected EOF while looking for matching \`${char === "`" ? "`" : ")"}'`);
+      }
+
+      const command = char === "`" ? unescapeBackquoted(raw.slice(i + 1, end)) : raw.slice(i + 2, end);
+      // Trailing newlines are dropped; the rest is split like any unquoted expansion
+      const output: string = yield command;
+
+      fragments.push({ text: output.replace(/\n+$/, ""), quoted: inDouble, expanded: true });
+      i = end;
+    } else if (char === "$") {
+      const { fragments: expanded, end } = yield* expandParameter(raw, i, inDouble);
+
+      fragments.push(...expanded);
+      i = end;
+    } else if (char === "~" && !inDouble && isTildePrefixStart(raw, i, assignment)) {
+      const end = findTildePrefixEnd(raw, i, assignment);
+      const home = expandTilde(raw.slice(i + 1, end));
+
+      if (home === undefined) {
+        literal(raw.slice(i, end), false);
+      } else {
+        // Tilde results are never split or globbed
+        fragments.push({ text: home, quoted: true, expanded: true });
+      }
+      i = end - 1;
+    } else {
+      literal(char, inDouble);
+    }
+  }
+
+  return fragments;
+}
+
+function isTildePrefixStart(raw: string, index: number, assignment: boolean): boolean {
+  if (index === 0) {
+    return true;
+  }
+
+  return assignment && (raw[index - 1] === ":" || raw.indexOf("=") === index - 1);
+}
+
+function findTildePrefixEnd(raw: string, start: number, assignment: boolean): number {
+  let end = start + 1;
+
+  while (end < raw.length && raw[end] !== "/" && !(assignment && raw[end] === ":")) {
+    end++;
+  }
+
+  return end;
+}
+
+/**
+ * Resolves a tilde prefix: "" is $HOME, "+" is $PWD and "-" is $OLDPWD.
+ * Other user names are left unexpanded.
+ */
+function expandTilde(prefix: string): string | undefined {
+  if (prefix === "") {
+    return getVariable("HOME");
+  }
+
+  if (prefix === "+") {
+    return getVariable("PWD");
+  }
+
+  if (prefix === "-") {
+    return getVariable("OLDPWD");
+  }
+
+  return undefined;
+}
+
+/**
+ * Removes the backslashes that quote $, ` and \ inside a backquoted command.
+ */
+function unescapeBackquoted(command: string): string {
+  let result = "";
+
+  for (let i = 0; i < command.length; i++) {
+    if (command[i] === "\\" && BACKQUOTE_ESCAPABLE.includes(command[i + 1])) {
+      i++;
+    }
+
+    result += command[i] ?? "";
+  }
+
+  return result;
+}
+
+/**
+ * Expands the parameter reference that starts at raw[start] (a "$").
+ *
+ * @returns The produced fragments and the index of the last consumed character
+ */
+function* expandParameter(raw: string, start: number, inDouble: boolean): Expansion<{ fragments: WordFragment[], end: number }> {
+  const nextChar = raw[start + 1];
+  const value = (text: string): WordFragment[] => [{ text, quoted: inDouble, expanded: true }];
+
+  if (nextChar === "{") {
+    const close = findExpansionEnd(raw, start);
+
+    if (close === -1) {
+      throw new ExpansionError(`${raw.slice(start)}: bad substitution`);
+    }
+
+    return {
+      fragments: yield* expandBracedParameter(raw.slice(start + 2, close), raw.slice(start, close + 1), inDouble),
+      end: close
+    };
+  }
+
+  const nameMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(raw.slice(start + 1));
+
+  if (nameMatch) {
+    return { fragments: value(lookupParameter(nameMatch[0]) ?? ""), end: start + nameMatch[0].length };
+  }
+
+  if (nextChar === "@" || nextChar === "*") {
+    return { fragments: expandPositional(nextChar, inDouble), end: start + 1 };
+  }
+
+  if (nextChar !== undefined && /[?$!#0-9]/.test(nextChar)) {
+    return { fragments: value(lookupParameter(nextChar) ?? ""), end: start + 1 };
+  }
+
+  // A lone "$" is literal
+  return { fragments: [{ text: "$", quoted: inDouble, expanded: false }], end: start };
+}
+
+/**
+ * Expands the inside of ${...}.
+ * Supports: NAME, NAME[index], NAME[@], #NAME, #NAME[@], and the operators
+ * -, :-, =, :=, +, :+, ?, :?
+ */
+function* expandBracedParameter(inner: string, source: string, inDouble: boolean): Expansion<WordFragment[]> {
+  const value = (text: string): WordFragment[] => [{ text, quoted: inDouble, expanded: true }];
+
+  if (inner === "#@" || inner === "#*") {
+    return value(String(getPositionalParameters().length));
+  }
+
+  if (inner.length > 1 && inner.startsWith("#")) {
+    const element = /^([A-Za-z_][A-Za-z0-9_]*)\[([@*])\]$/.exec(inner.slice(1));
+
+    // ${#NAME[@]} counts elements; otherwise the length of the value is taken
+    if (element) {
+      return value(String(lookupArray(element[1]).length));
+    }
+
+    return value(String((lookupParameter(inner.slice(1), source) ?? "").length));
+  }
+
+  const match = /^([A-Za-z_][A-Za-z0-9_]*(?:\[[^\]]*\])?|[0-9]+|[?$!#@*])(:?[-=+?])?([\s\S]*)$/.exec(inner);
+
+  if (!match || (!match[2] && match[3])) {
+    throw new ExpansionError(`${source}: bad substitution`);
+  }
+
+  const [, name, operator, word] = match;
+
+  if (!operator && (name === "@" || name === "*")) {
+    return expandPositional(name, inDouble);
+  }
+
+  const allElements = /^([A-Za-z_][A-Za-z0-9_]*)\[@\]$/.exec(name);
+
+  if (!operator && allElements && inDouble) {
+    const elements = lookupArray(allElements[1]);
+
+    return [{ text: elements.join(" "), quoted: true, expanded: true, fields: elements }];
+  }
+
+  const current = lookupParameter(name, source);
+  const checkNull = operator?.startsWith(":") ?? false;
+  const missing = current === undefined || (checkNull && current === "");
+
+  // The word is itself expanded; inside double quotes its result stays quoted
+  const expandOperand = function* (): Expansion<WordFragment[]> {
+    return (yield* scanWord(word, false)).map(fragment => inDouble ? { ...fragment, quoted: true } : fragment);
+  };
+
+  switch (operator?.replace(":", "")) {
+    case "-":
+      return missing ? yield* expandOperand() : value(current ?? "");
+    case "=": {
+      if (!missing) {
+        return value(current ?? "");
+      }
+
+      if (!isValidName(name)) {
+        throw new ExpansionError(`\$${name}: cannot assign in this way`);
+      }
+
+      const assigned = joinFragments(yield* expandOperand());
+
+      setVariable(name, assigned);
+
+      return value(assigned);
+    }
+    case "+":
+      return missing ? [] : yield* expandOperand();
+    case "?":
+      if (missing) {
+        throw new ExpansionError(`${name}: ${joinFragments(yield* expandOperand()) || "parameter null or not set"}`, true);
+      }
+
+      return value(current ?? "");
+    default:
+      return value(current ?? "");
+  }
+}
+
+/**
+ * Resolves a parameter name, including special parameters and array
+ * elements. A plain variable behaves as an array of one element.
+ *
+ * @param name - Variable name, NAME[subscript] or special parameter character
+ * @param source - Full ${...} text, for error messages
+ * @returns The parameter's value, or undefined if it is unset
+ */
+function lookupParameter(name: string, source = name): string | undefined {
+  const element = /^([A-Za-z_][A-Za-z0-9_]*)\[([^\]]*)\]$/.exec(name);
+
+  if (element) {
+    const [, arrayName, subscript] = element;
+    const values = lookupArray(arrayName);
+
+    if (subscript === "@" || subscript === "*") {
+      return values.length > 0 ? values.join(" ") : undefined;
+    }
+
+    if (!/^[0-9]+$/.test(subscript)) {
+      throw new ExpansionError(`${source}: bad substitution`);
+    }
+
+    return values[parseInt(subscript, 10)];
+  }
+
+  switch (name) {
+    case "?":
+      return String(getLastExitStatus());
+    case "$":
+      return String(process.pid);
+    case "!":
+      return getLastBackgroundPid()?.toString();
+    case "#":
+      return String(getPositionalParameters().length);
+    case "@":
+    case "*":
+      return getPositionalParameters().length > 0 ? getPositionalParameters().join(" ") : undefined;
+    case "0":
+      return getScriptName();
+    case "PIPESTATUS":
+      return lookupArray(name)[0];
+    default:
+      return /^[0-9]+$/.test(name) ? getPositionalParameters()[parseInt(name, 10) - 1] : getVariable(name);
+  }
+}
+
+/**
+ * Expands $@ or $*. Inside double quotes "$@" produces one field per
+ * argument (none without arguments) and "$*" one field joined by the first
+ * IFS character; unquoted, both are split like any other expansion.
+ */
+function expandPositional(name: "@" | "*", inDouble: boolean): WordFragment[] {
+  const parameters = getPositionalParameters();
+
+  if (inDouble && name === "@") {
+    return [{ text: parameters.join(" "), quoted: true, expanded: true, fields: parameters }];
+  }
+
+  const separator = inDouble ? (getVariable("IFS") ?? DEFAULT_IFS).slice(0, 1) : " ";
+
+  return [{ text: parameters.join(separator), quoted: inDouble, expanded: true }];
+}
+
+/**
+ * Returns the elements of an array variable. Any other set variable is an
+ * array of its one value.
+ */
+function lookupArray(name: string): string[] {
+  if (name === "PIPESTATUS") {
+    return getPipeStatus().map(String);
+  }
+
+  const current = getVariable(name);
+
+  return getArray(name) ?? (current === undefined ? [] : [current]);
+}
+
+/**
+ * Splits unquoted expansion results on IFS characters. Literal text and
+ * quoted fragments are never split, but "$@" starts a new field for each
+ * argument. Fields that end up empty are dropped unless they contain
+ * quotes; the quotes of a "$@" without arguments do not count.
+ */
+function splitFields(fragments: WordFragment[]): WordFragment[][] {
+  const ifs = getVariable("IFS") ?? DEFAULT_IFS;
+  const fields: WordFragment[][] = [];
+  let current: WordFragment[] = [];
+  let hasContent = false;
+  const emptyArguments = fragments.some(fragment => fragment.fields?.length === 0);
+
+  for (const fragment of fragments) {
+    if (fragment.fields) {
+      fragment.fields.forEach((text, index) => {
+        if (index > 0) {
+          fields.push(current);
+          current = [];
+        }
+
+        current.push({ text, quoted: true, expanded: true });
+        hasContent = true;
+      });
+
+      continue;
+    }
+
+    if (!fragment.expanded || fragment.quoted || ifs === "") {
+      current.push(fragment);
+      hasContent = hasContent || (fragment.quoted && !emptyArguments) || fragment.text !== "";
+
+      continue;
+    }
+
+    let piece = "";
+
+    for (const char of fragment.text) {
+      if (!ifs.includes(char)) {
+        piece += char;
+
+        continue;
+      }
+
+      if (piece) {
+        current.push({ ...fragment, text: piece });
+        piece = "";
+        hasContent = true;
+      }
+
+      if (hasContent) {
+        fields.push(current);
+        current = [];
+        hasContent = false;
+      }
+    }
+
+    if (piece) {
+      current.push({ ...fragment, text: piece });
+      hasContent = true;
+    }
+  }
+
+  if (hasContent) {
+    fields.push(current);
+  }
+
+  return fields;
+}
@@ -0,0 +1,221 @@
+/**
+ * Fix Command Module
+ *
+ * The fc builtin: lists commands from the history, and runs them again,
+ * edited or as they are.
+ *
+ * Commands are given by history number, by a negative offset from the end
+ * (-1 is the previous command) or by their start (the most recent command
+ * starting with it). The fc command itself is never one of them; when fc
+ * runs commands, they take its place in the history.
+ *
+ * Commands supported:
+ * - fc -l [-nr] [FIRST [LAST]]: List commands, the last 16 by default; -n
+ *   leaves out the numbers, -r lists the newest first
+ * - fc [-e EDITOR] [FIRST [LAST]]: Edit commands, the previous one by
+ *   default, in EDITOR ($FCEDIT, $EDITOR or vi), then run the result
+ * - fc -s [OLD=NEW] [COMMAND]: Run a command again, the previous one by
+ *   default, with every OLD replaced by NEW; so does fc -e -
+ */
+
+import { Observable, of, defer, throwError } from "rxjs";
+import { map, concatMap, catchError } from "rxjs/operators";
+import { parseCommandList } from "./parser";
+import { addHistoryEntry, removeHistoryEntry } from "./history";
+import { editInEditor } from "./editor";
+import { getVariable } from "./variables";
+import { write$, writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+import type { CommandResult } from "./executor";
+import type { SourceRunner } from "./script";
+
+/**
+ * Options of an fc command.
+ */
+interface FcOptions {
+  editor?: string;
+  list: boolean;
+  numbers: boolean;
+  reverse: boolean;
+  substitute: boolean;
+}
+
+const FC_USAGE = "fc: usage: fc [-e ename] [-lnr] [first] [last] or fc -s [pat=rep] [command]\n";
+// Commands fc -l lists when given no range
+const DEFAULT_LIST_LENGTH = 16;
+
+/**
+ * Executes the fc builtin.
+ * Supports: fc -l [-nr] [first [last]], fc [-e editor] [first [last]],
+ * fc -s [old=new] [command]
+ *
+ * @param args - Command arguments (excluding 'fc' itself)
+ * @param io - Streams of the builtin
+ * @param commandHistory - Array of previously executed commands
+ * @param lastAppendedIndex - Index tracking last appended history entry
+ * @param runList - Executes the commands fc runs
+ * @returns Observable with the result of the last command run
+ */
+export function executeFcCommand$(
+  args: string[],
+  io: CommandIO,
+  commandHistory: string[],
+  lastAppendedIndex: number,
+  runList: SourceRunner
+): Observable<CommandResult> {
+  const fail = (message: string, exitCode = 1) => write$(io.stderr, message).pipe(
+    map(() => ({ exitCode, newLastAppendedIndex: lastAppendedIndex }))
+  );
+  const options: FcOptions = { list: false, numbers: true, reverse: false, substitute: false };
+  let i = 0;
+
+  // Options end at the first operand; "-1" is an operand
+  for (; i < args.length && /^-[^0-9]/.test(args[i]); i++) {
+    if (args[i] === "--") {
+      i++;
+
+      break;
+    }
+
+    if (args[i] === "-e" && args[i + 1] === undefined) {
+      return fail(`fc: -e: option requires an argument\n${FC_USAGE}`, 2);
+    }
+
+    if (args[i] === "-e") {
+      options.editor = args[++i];
+
+      continue;
+    }
+
+    for (const flag of args[i].slice(1)) {
+      if (flag === "l") {
+        options.list = true;
+      } else if (flag === "n") {
+        options.numbers = false;
+      } else if (flag === "r") {
+        options.reverse = true;
+      } else if (flag === "s") {
+        options.substitute = true;
+      } else {
+        return fail(`fc: -${flag}: invalid option\n${FC_USAGE}`, 2);
+      }
+    }
+  }
+
+  const operands = args.slice(i);
+  // The fc command being run, when it is in the history, is left out
+  const end = /^fc(\s|$)/.test(commandHistory[commandHistory.length - 1] ?? "") ? commandHistory.length - 1 : commandHistory.length;
+  const find = (spec: string) => findHistoryEntry(commandHistory, end, spec);
+
+  if (options.substitute || options.editor === "-") {
+    const [replacement, spec = "-1"] = operands[0]?.includes("=") ? operands : [undefined, ...operands];
+    const index = find(spec);
+
+    if (index === null) {
+      return fail(`fc: ${spec}: no command found\n`);
+    }
+
+    const [old, ...rest] = (replacement ?? "").split("=");
+    const command = old ? commandHistory[index].split(old).join(rest.join("=")) : commandHistory[index];
+
+    return runCommands$(command, io, commandHistory, end, lastAppendedIndex, runList);
+  }
+
+  if (options.list) {
+    const first = operands[0] === undefined ? Math.max(end - DEFAULT_LIST_LENGTH, 0) : find(operands[0]);
+    const last = operands[1] === undefined ? end - 1 : find(operands[1]);
+
+    if (end === 0) {
+      return of({ exitCode: 0, newLastAppendedIndex: lastAppendedIndex });
+    }
+
+    if (first === null || last === null) {
+      return fail("fc: history specification out of range\n");
+    }
+
+    const indexes = range(first, last);
+    const lines = (options.reverse ? indexes.reverse() : indexes)
+      .map(index => `${options.numbers ? index + 1 : ""}\t ${commandHistory[index]}\n`);
+
+    return writeLines$(io.stdout, lines).pipe(
+      map(() => ({ exitCode: 0, newLastAppendedIndex: lastAppendedIndex }))
+    );
+  }
+
+  const first = find(operands[0] ?? "-1");
+  const last = operands[1] === undefined ? first : find(operands[1]);
+
+  if (first === null || last === null) {
+    return fail("fc: history specification out of range\n");
+  }
+
+  return defer(() => {
+    const text = range(first, last).map(index => commandHistory[index]).join("\n");
+    const edited = editInEditor(text, options.editor ?? (getVariable("FCEDIT") || getVariable("EDITOR") || "vi"));
+
+    if (edited === null || edited.trim() === "") {
+      return of({ exitCode: edited === null ? 1 : 0, newLastAppendedIndex: lastAppendedIndex });
+    }
+
+    return runCommands$(edited.replace(/\n+$/, ""), io, commandHistory, end, lastAppendedIndex, runList);
+  });
+}
+
+/**
+ * Puts commands in the history in place of the fc command, echoes them and
+ * runs them.
+ */
+function runCommands$(
+  command: string,
+  io: CommandIO,
+  commandHistory: string[],
+  end: number,
+  lastAppendedIndex: number,
+  runList: SourceRunner
+): Observable<CommandResult> {
+  return defer(() => {
+    const remainingIndex = end < commandHistory.length ? removeHistoryEntry(commandHistory, end, lastAppendedIndex) : lastAppendedIndex;
+    const appendedIndex = addHistoryEntry(commandHistory, command, Math.min(remainingIndex, commandHistory.length));
+
+    return write$(io.stdout, `${command}\n`).pipe(
+      concatMap(() => defer(() => runList(parseCommandList(command), appendedIndex))),
+      catchError(error => error instanceof SyntaxError
+        ? write$(io.stderr, `${error.message}\n`).pipe(map((): CommandResult => ({ exitCode: 2 })))
+        : throwError(() => error)),
+      map(result => ({ ...result, newLastAppendedIndex: result.newLastAppendedIndex ?? appendedIndex }))
+    );
+  });
+}
+
+/**
+ * Finds the history entry a command specification refers to, among the
+ * entries before end.
+ *
+ * @example
+ * findHistoryEntry(["ls", "echo hi", "pwd"], 3, "ec")   // 1
+ */
+function findHistoryEntry(commandHistory: string[], end: number, spec: string): number | null {
+  if (/^-?[0-9]+$/.test(spec)) {
+    const number = parseInt(spec, 10);
+    const index = number < 0 ? end + number : number - 1;
+
+    return index >= 0 && index < end ? index : null;
+  }
+
+  for (let i = end - 1; i >= 0; i--) {
+    if (commandHistory[i].startsWith(spec)) {
+      return i;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Lists the indexes from first to last, counting down if last comes first.
+ */
+function range(first: number, last: number): number[] {
+  const step = first <= last ? 1 : -1;
+
+  return Array.from({ length: Math.abs(last - first) + 1 }, (_, offset) => first + offset * step);
+}
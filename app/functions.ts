@@ -0,0 +1,193 @@
+/**
+ * Shell Functions Module
+ *
+ * The function table and the call frames of running functions.
+ *
+ * Features:
+ * - name() { list; }: Define (or redefine) a function
+ * - name args...: Call it; looked up before builtins and PATH commands
+ * - $1...$n, $#, $@ and $*: The call's arguments, restored on return
+ * - local NAME[=value]: Variables restored on return (see variables.ts)
+ * - NAME=value name: Assignments that last for the call only
+ *
+ * Commands supported:
+ * - return [n]: Leave the function or sourced file with status n, or the
+ *   status of the last command
+ * - unset -f NAME...: Remove functions
+ */
+
+import { Observable, of, defer } from "rxjs";
+import { map } from "rxjs/operators";
+import type { FunctionDefinition } from "./parser";
+import type { CommandResult } from "./executor";
+import { getPositionalParameters, setPositionalParameters } from "./parameters";
+import { pushScope, popScope, declareLocal } from "./variables";
+import { getLastExitStatus } from "./status";
+import { write$ } from "./io";
+import type { CommandIO } from "./io";
+
+// Defined functions, keyed by name
+const functions = new Map<string, FunctionDefinition>();
+
+// Number of function calls and sourced files currently running, for return
+let callDepth = 0;
+
+/**
+ * Adds a function to the table, replacing any function of the same name.
+ *
+ * @param definition - Parsed function definition
+ */
+export function defineFunction(definition: FunctionDefinition): void {
+  functions.set(definition.name, definition);
+}
+
+/**
+ * Looks up a function.
+ *
+ * @param name - Function name
+ * @returns The function's definition, or undefined if none is defined
+ */
+export function getFunction(name: string): FunctionDefinition | undefined {
+  return functions.get(name);
+}
+
+/**
+ * Lists the defined function names.
+ *
+ * @returns Function names in sorted order
+ */
+export function getFunctionNames(): string[] {
+  return [...functions.keys()].sort();
+}
+
+/**
+ * Copies the function table, so that a subshell's definitions can be undone.
+ *
+ * @returns A snapshot for restoreFunctions
+ */
+export function snapshotFunctions(): Map<string, FunctionDefinition> {
+  return new Map(functions);
+}
+
+/**
+ * Puts back the functions as they were when a snapshot was taken.
+ *
+ * @param snapshot - Snapshot from snapshotFunctions
+ */
+export function restoreFunctions(snapshot: Map<string, FunctionDefinition>): void {
+  functions.clear();
+  snapshot.forEach((definition, name) => functions.set(name, definition));
+}
+
+/**
+ * Formats a function the way the type builtin prints it.
+ *
+ * @param definition - Parsed function definition
+ * @returns The definition's source, starting with "name ()"
+ *
+ * @example
+ * formatFunction(parseCommandList("greet() { echo hi; }")[0].pipeline[0])
+ * // Returns: "greet () \n{ echo hi; }"
+ */
+export function formatFunction(definition: FunctionDefinition): string {
+  return `${definition.name} () \n${definition.text}`;
+}
+
+/**
+ * Calls a function: runs its body with the arguments as positional
+ * parameters, in a new scope for local variables. A `return` inside the
+ * body ends the call with its status.
+ *
+ * @param definition - The function to call
+ * @param args - Arguments, which become $1...$n
+ * @param assignments - NAME=value prefixes, local to the call
+ * @param runBody - Runs the function's body
+ * @returns Observable that emits the result of the call
+ */
+export function executeFunction$(
+  definition: FunctionDefinition,
+  args: string[],
+  assignments: Record<string, string>,
+  runBody: () => Observable<CommandResult>
+): Observable<CommandResult> {
+  return defer(() => {
+    const callerParameters = getPositionalParameters();
+
+    setPositionalParameters(args);
+    pushScope();
+
+    for (const [name, value] of Object.entries(assignments)) {
+      declareLocal(name, value);
+    }
+
+    return executeReturnable$(runBody).pipe(
+      // Restore the caller's state before the result reaches its next command
+      map(result => {
+        popScope();
+        setPositionalParameters(callerParameters);
+
+        return result;
+      })
+    );
+  });
+}
+
+/**
+ * Runs commands that `return` can leave: a function body or a sourced file.
+ *
+ * @param run - Runs the commands
+ * @returns Observable that emits the result, with the return consumed
+ */
+export function executeReturnable$(run: () => Observable<CommandResult>): Observable<CommandResult> {
+  return defer(() => {
+    callDepth++;
+
+    return run().pipe(
+      map(result => {
+        callDepth--;
+
+        return { ...result, functionReturn: false };
+      })
+    );
+  });
+}
+
+/**
+ * Executes the return builtin.
+ * Supports: return, return N
+ *
+ * @param args - Command arguments (excluding 'return' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the result, marked to end the running function
+ */
+export function executeReturnCommand$(args: string[], io: CommandIO): Observable<CommandResult> {
+  if (callDepth === 0) {
+    return write$(io.stderr, "return: can only `return' from a function or sourced script\n").pipe(
+      map(() => ({ exitCode: 1 }))
+    );
+  }
+
+  if (args[0] !== undefined && !/^-?[0-9]+$/.test(args[0])) {
+    return write$(io.stderr, `return: ${args[0]}: numeric argument required\n`).pipe(
+      map(() => ({ exitCode: 2, functionReturn: true }))
+    );
+  }
+
+  const exitCode = args[0] === undefined ? getLastExitStatus() : parseInt(args[0], 10) & 0xff;
+
+  return of({ exitCode, functionReturn: true });
+}
+
+/**
+ * Executes `unset -f`.
+ *
+ * @param names - Functions to remove
+ * @returns Observable with the exit status
+ */
+export function executeUnsetFunctionCommand$(names: string[]): Observable<number> {
+  for (const name of names) {
+    functions.delete(name);
+  }
+
+  return of(0);
+}
@@ -0,0 +1,227 @@
+/**
+ * Git Status Module
+ *
+ * Works out the git status shown by the `\g` prompt escape: the branch,
+ * whether the work tree has changes, and how far the branch is ahead of and
+ * behind its upstream.
+ *
+ * Sources:
+ * - Branch: .git/HEAD, read directly; a detached HEAD shows its short hash
+ * - Upstream: the branch's remote and merge settings in .git/config,
+ *   resolved through loose refs and packed-refs
+ * - Changes and ahead/behind counts: `git status --porcelain=v2 --branch`.
+ *   The prompt waits for it, but for no more than GIT_STATUS_TIMEOUT ms:
+ *   then git is killed and the status shown without what it would have
+ *   told. When the branch and its upstream point at the same commit, the
+ *   counts are known to be 0 even then
+ *
+ * Linked worktrees and submodules, whose .git is a file pointing at the
+ * real git directory, are supported.
+ */
+
+import { Observable, of, from, forkJoin } from "rxjs";
+import { map, switchMap, catchError } from "rxjs/operators";
+import { promises as fs } from "node:fs";
+import { execFile } from "node:child_process";
+import path from "node:path";
+
+/**
+ * Git status of a work tree. Fields that could not be worked out in time
+ * are undefined.
+ */
+export interface GitStatus {
+  branch: string;
+  dirty?: boolean;
+  ahead?: number;
+  behind?: number;
+}
+
+// Longest time git status may take before the prompt is shown without it
+const GIT_STATUS_TIMEOUT = 300;
+
+/**
+ * Reads the git status of the repository containing a directory.
+ *
+ * @param directory - Directory inside the work tree, usually the current one
+ * @returns Observable of the status, or null outside a git repository
+ *
+ * @example
+ * readGitStatus$(process.cwd()).subscribe(status => console.log(status))
+ * // Logs: { branch: "main", dirty: true, ahead: 1, behind: 0 }
+ */
+export function readGitStatus$(directory: string): Observable<GitStatus | null> {
+  return findGitDirectory$(directory).pipe(
+    switchMap(gitDir => gitDir ? readRepositoryStatus$(gitDir, directory) : of(null)),
+    catchError(() => of(null))
+  );
+}
+
+/**
+ * Formats a git status for the prompt.
+ *
+ * @param status - Result of readGitStatus$
+ * @returns The branch with "*" for changes and arrows for ahead/behind counts
+ *
+ * @example
+ * formatGitStatus({ branch: "main", dirty: true, ahead: 2, behind: 0 })
+ * // Returns: "(main *↑2)"
+ */
+export function formatGitStatus(status: GitStatus): string {
+  const marks = [
+    status.dirty ? "*" : "",
+    status.ahead ? `↑${status.ahead}` : "",
+    status.behind ? `↓${status.behind}` : ""
+  ].join("");
+
+  return `(${status.branch}${marks ? ` ${marks}` : ""})`;
+}
+
+/**
+ * Finds the git directory for a directory by looking for .git in it and
+ * its parents. A .git file holds a "gitdir:" line with the real location.
+ */
+function findGitDirectory$(directory: string): Observable<string | null> {
+  const dotGit = path.join(directory, ".git");
+  const parent = path.dirname(directory);
+
+  return from(fs.stat(dotGit)).pipe(
+    switchMap(stats => stats.isDirectory() ? of(dotGit) : readText$(dotGit).pipe(
+      map(text => {
+        const gitDir = /^gitdir: (.+)$/m.exec(text ?? "")?.[1];
+
+        if (!gitDir) {
+          throw new Error(`${dotGit}: not a git directory link`);
+        }
+
+        return path.resolve(directory, gitDir);
+      })
+    )),
+    catchError(() => parent === directory ? of(null) : findGitDirectory$(parent))
+  );
+}
+
+function readRepositoryStatus$(gitDir: string, workTree: string): Observable<GitStatus | null> {
+  // Worktrees keep HEAD to themselves but share refs and config
+  return readText$(path.join(gitDir, "commondir")).pipe(
+    map(commonDir => commonDir ? path.resolve(gitDir, commonDir.trim()) : gitDir),
+    switchMap(commonDir => forkJoin({
+      head: readText$(path.join(gitDir, "HEAD")),
+      config: readText$(path.join(commonDir, "config"))
+    }).pipe(
+      switchMap(({ head, config }) => {
+        if (!head) {
+          return of(null);
+        }
+
+        const ref = /^ref: (\S+)/.exec(head)?.[1];
+        const branch = ref ? ref.replace(/^refs\/heads\//, "") : head.trim().slice(0, 7);
+        const upstream = ref && config ? findUpstream(config, branch) : null;
+
+        return forkJoin({
+          local: ref ? resolveRef$(commonDir, ref) : of(head.trim()),
+          remote: upstream ? resolveRef$(commonDir, upstream) : of(null),
+          output: runGitStatus$(workTree)
+        }).pipe(
+          map(({ local, remote, output }) => parseStatus(branch, local !== null && local === remote, output))
+        );
+      })
+    ))
+  );
+}
+
+/**
+ * Combines what was read directly with the output of git status.
+ */
+function parseStatus(branch: string, upToDate: boolean, output: string | null): GitStatus {
+  const status: GitStatus = upToDate ? { branch, ahead: 0, behind: 0 } : { branch };
+
+  if (output === null) {
+    return status;
+  }
+
+  const counts = /^# branch\.ab \+(\d+) -(\d+)$/m.exec(output);
+
+  status.dirty = output.split("\n").some(line => line !== "" && !line.startsWith("#"));
+
+  if (counts) {
+    status.ahead = parseInt(counts[1], 10);
+    status.behind = parseInt(counts[2], 10);
+  }
+
+  return status;
+}
+
+/**
+ * Finds the upstream ref of a branch from the [branch "name"] section of
+ * .git/config.
+ *
+ * @example
+ * findUpstream('[branch "main"]\n\tremote = origin\n\tmerge = refs/heads/main\n', "main")
+ * // Returns: "refs/remotes/origin/main"
+ */
+function findUpstream(config: string, branch: string): string | null {
+  let inSection = false;
+  let remote: string | undefined;
+  let merge: string | undefined;
+
+  for (const line of config.split("\n")) {
+    const trimmed = line.trim();
+    const section = /^\[(.*)\]$/.exec(trimmed);
+
+    if (section) {
+      inSection = section[1] === `branch "${branch}"`;
+
+      continue;
+    }
+
+    const setting = inSection ? /^(\w+)\s*=\s*(.*)$/.exec(trimmed) : null;
+
+    if (setting?.[1] === "remote") {
+      remote = setting[2];
+    } else if (setting?.[1] === "merge") {
+      merge = setting[2];
+    }
+  }
+
+  if (!remote || !merge) {
+    return null;
+  }
+
+  // A remote of "." tracks a local branch
+  return remote === "." ? merge : `refs/remotes/${remote}/${merge.replace(/^refs\/heads\//, "")}`;
+}
+
+/**
+ * Resolves a ref to a commit hash from its loose file or packed-refs.
+ */
+function resolveRef$(commonDir: string, ref: string): Observable<string | null> {
+  return readText$(path.join(commonDir, ref)).pipe(
+    switchMap(loose => loose ? of(loose.trim()) : readText$(path.join(commonDir, "packed-refs")).pipe(
+      map(packed => packed?.split("\n").find(line => line.endsWith(` ${ref}`))?.split(" ")[0] ?? null)
+    ))
+  );
+}
+
+/**
+ * Runs git status, emitting null if it fails or takes too long. Optional
+ * locks are off so the prompt never competes with the user's git commands.
+ */
+function runGitStatus$(workTree: string): Observable<string | null> {
+  return new Observable<string | null>(subscriber => {
+    const child = execFile(
+      "git",
+      ["status", "--porcelain=v2", "--branch"],
+      { cwd: workTree, timeout: GIT_STATUS_TIMEOUT, env: { ...process.env, GIT_OPTIONAL_LOCKS: "0" } },
+      (error, stdout) => {
+        subscriber.next(error ? null : stdout);
+        subscriber.complete();
+      }
+    );
+
+    return () => child.kill();
+  });
+}
+
+function readText$(file: string): Observable<string | null> {
+  return from(fs.readFile(file, "utf8")).pipe(catchError(() => of(null)));
+}
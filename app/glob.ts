@@ -0,0 +1,288 @@
+/**
+ * Pathname Expansion Module
+ *
+ * Expands glob patterns in unquoted text into sorted lists of matching paths,
+ * and matches text against `case` patterns.
+ *
+ * Pattern syntax:
+ * - *: Any sequence of characters within a path component
+ * - ?: Any single character
+ * - [abc], [a-z], [!abc], [^abc], [[:alpha:]]: Bracket expressions
+ * - **: Any number of directories, when it forms a whole component (globstar)
+ *
+ * Matching rules follow bash:
+ * - Quoted characters always match literally
+ * - Names starting with "." only match a literal "." unless dotglob is set
+ * - Unmatched patterns stay as-is, vanish (nullglob) or fail (failglob)
+ */
+
+import fs from "node:fs";
+import type { WordFragment } from "./expansion";
+import { ExpansionError } from "./expansion";
+import { getOption } from "./options";
+
+interface PatternChar {
+  char: string;
+  quoted: boolean;
+}
+
+const CHARACTER_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  blank: " \\t",
+  digit: "0-9",
+  lower: "a-z",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: " \\t\\n\\r\\f\\v",
+  upper: "A-Z",
+  xdigit: "0-9A-Fa-f"
+};
+
+/**
+ * Expands one field into the paths it matches.
+ *
+ * @param field - Fragments of an expanded word, with their quote state
+ * @returns Sorted matching paths, or the field's text when it is not a pattern
+ * @throws ExpansionError when nothing matches and failglob is set
+ *
+ * @example
+ * // In a directory containing main.ts, parser.ts and README.md
+ * expandPathname([{ text: "*.ts", quoted: false, expanded: false }])
+ * // Returns: ["main.ts", "parser.ts"]
+ */
+export function expandPathname(field: WordFragment[]): string[] {
+  const chars = field.flatMap(fragment => [...fragment.text].map(char => ({ char, quoted: fragment.quoted })));
+  const text = chars.map(({ char }) => char).join("");
+
+  if (!chars.some(isWildcard)) {
+    return [text];
+  }
+
+  const matches = matchPattern(chars);
+
+  if (matches.length > 0) {
+    return matches.sort();
+  }
+
+  if (getOption("failglob")) {
+    throw new ExpansionError(`no match: ${text}`);
+  }
+
+  return getOption("nullglob") ? [] : [text];
+}
+
+/**
+ * Matches text against a pattern, as `case` does. Unlike pathname
+ * expansion, wildcards also match "/" and a leading ".".
+ *
+ * @param text - Text to test
+ * @param pattern - Fragments of an expanded pattern, with their quote state
+ * @returns True if the whole text matches
+ *
+ * @example
+ * matchesPattern("main.ts", [{ text: "*.ts", quoted: false, expanded: false }])  // true
+ * matchesPattern("main.ts", [{ text: "*.ts", quoted: true, expanded: false }])   // false
+ */
+export function matchesPattern(text: string, pattern: WordFragment[]): boolean {
+  const chars = pattern.flatMap(fragment => [...fragment.text].map(char => ({ char, quoted: fragment.quoted })));
+
+  return componentToRegExp(chars).test(text);
+}
+
+function isWildcard({ char, quoted }: PatternChar): boolean {
+  return !quoted && (char === "*" || char === "?" || char === "[");
+}
+
+/**
+ * Walks the file system one path component at a time.
+ */
+function matchPattern(chars: PatternChar[]): string[] {
+  const components = splitComponents(chars);
+  const absolute = chars[0]?.char === "/";
+  let paths = [absolute ? "/" : ""];
+
+  // A leading "/" produces an empty first component
+  for (let index = absolute ? 1 : 0; index < components.length; index++) {
+    const component = components[index];
+    const isLast = index === components.length - 1;
+    const text = component.map(({ char }) => char).join("");
+
+    if (isGlobstar(component)) {
+      // "**" matches everything below when last, otherwise any directory depth
+      paths = paths.flatMap(base => isLast ? listTree(base, false) : [base, ...listTree(base, true)]);
+    } else if (!component.some(isWildcard)) {
+      paths = paths.map(base => joinPath(base, text));
+    } else {
+      const regex = componentToRegExp(component);
+      const matchHidden = component[0]?.char === "." || getOption("dotglob");
+
+      paths = paths.flatMap(base => readNames(base)
+        .filter(name => matchHidden || !name.startsWith("."))
+        .filter(name => regex.test(name))
+        .map(name => joinPath(base, name)));
+    }
+  }
+
+  // Literal components after a wildcard may name files that do not exist
+  return paths.filter(candidate => candidate !== "" && exists(candidate));
+}
+
+function splitComponents(chars: PatternChar[]): PatternChar[][] {
+  const components: PatternChar[][] = [[]];
+
+  for (const patternChar of chars) {
+    if (patternChar.char === "/") {
+      components.push([]);
+    } else {
+      components[components.length - 1].push(patternChar);
+    }
+  }
+
+  return components;
+}
+
+function isGlobstar(component: PatternChar[]): boolean {
+  return getOption("globstar")
+    && component.length === 2
+    && component.every(({ char, quoted }) => char === "*" && !quoted);
+}
+
+function joinPath(base: string, name: string): string {
+  if (base === "") {
+    return name;
+  }
+
+  return base.endsWith("/") ? `${base}${name}` : `${base}/${name}`;
+}
+
+function readNames(base: string): string[] {
+  try {
+    return fs.readdirSync(base || ".");
+  } catch {
+    return [];
+  }
+}
+
+function exists(candidate: string): boolean {
+  try {
+    fs.lstatSync(candidate);
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lists everything below a directory, depth first, skipping hidden names
+ * unless dotglob is set. Symbolic links to directories are not followed.
+ */
+function listTree(base: string, directoriesOnly: boolean): string[] {
+  const results: string[] = [];
+
+  for (const name of readNames(base)) {
+    if (name.startsWith(".") && !getOption("dotglob")) {
+      continue;
+    }
+
+    const fullPath = joinPath(base, name);
+    let isDirectory = false;
+
+    try {
+      isDirectory = fs.lstatSync(fullPath).isDirectory();
+    } catch {}
+
+    if (isDirectory || !directoriesOnly) {
+      results.push(fullPath);
+    }
+
+    if (isDirectory) {
+      results.push(...listTree(fullPath, directoriesOnly));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Translates one path component into an anchored regular expression.
+ */
+function componentToRegExp(component: PatternChar[]): RegExp {
+  let source = "";
+
+  for (let i = 0; i < component.length; i++) {
+    const { char, quoted } = component[i];
+
+    if (quoted) {
+      source += escapeRegExp(char);
+    } else if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else if (char === "[") {
+      const bracket = parseBracket(component, i);
+
+      if (bracket) {
+        source += bracket.source;
+        i = bracket.end;
+      } else {
+        source += "\\[";
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Parses a bracket expression starting at component[start] ("[").
+ *
+ * @returns The equivalent regex character class and the index of the closing "]",
+ *          or null if the bracket is never closed
+ */
+function parseBracket(component: PatternChar[], start: number): { source: string, end: number } | null {
+  let i = start + 1;
+  let negate = false;
+  let body = "";
+
+  if (!component[i]?.quoted && (component[i]?.char === "!" || component[i]?.char === "^")) {
+    negate = true;
+    i++;
+  }
+
+  for (let first = true; i < component.length; i++, first = false) {
+    const { char, quoted } = component[i];
+
+    if (char === "]" && !quoted && !first) {
+      return { source: `[${negate ? "^" : ""}${body}]`, end: i };
+    }
+
+    if (char === "[" && !quoted && component[i + 1]?.char === ":") {
+      // Character class such as [:alpha:]
+      const rest = component.slice(i + 2).map(c => c.char).join("");
+      const close = rest.indexOf(":]");
+      const className = close === -1 ? "" : rest.slice(0, close);
+
+      if (className in CHARACTER_CLASSES) {
+        body += CHARACTER_CLASSES[className];
+        i += className.length + 3;
+
+        continue;
+      }
+    }
+
+    if (char === "-" && !quoted && body && component[i + 1] && component[i + 1].char !== "]") {
+      body += "-";
+    } else {
+      body += char === "\\" || char === "]" || char === "[" || char === "^" || char === "-" ? `\\${char}` : char;
+    }
+  }
+
+  return null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
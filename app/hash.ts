@@ -0,0 +1,298 @@
+/**
+ * Command Hash Module
+ *
+ * Finds external commands in PATH through an index of the PATH directories,
+ * and remembers the commands the shell has run, as bash's hash table does.
+ *
+ * Index:
+ * - Each PATH directory is listed once and kept with its modification time.
+ *   Adding, removing or renaming a file changes the directory's time, so a
+ *   lookup only stats the directories and lists again the ones that changed
+ * - A command found in the index is still checked to be an executable file
+ *   before it is used, which also catches a `chmod +x` of an existing file
+ * - The executables of every directory are kept for completion
+ *
+ * Hash table:
+ * - Every external command the shell runs is remembered with its path and
+ *   the number of times it was run; `type` reports it as hashed
+ * - Assigning PATH forgets every remembered command
+ * - Paths given with `hash -p` are used as they are, without searching PATH
+ * - Names containing "/" are never looked up in PATH or remembered
+ *
+ * Commands supported:
+ * - hash: List remembered commands with their hit counts
+ * - hash NAME...: Look up commands and remember them
+ * - hash -r: Forget every remembered command
+ * - hash -p PATH NAME...: Remember PATH as the command NAME
+ */
+
+import { Observable } from "rxjs";
+import { map, concatMap } from "rxjs/operators";
+import fs from "node:fs";
+import path from "node:path";
+import { writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+/**
+ * A PATH directory as last listed: its modification time, every name in
+ * it, and the names of the executable files among them.
+ */
+interface DirectoryIndex {
+  mtimeMs: number;
+  names: Set<string>;
+  executables: string[];
+}
+
+/**
+ * A remembered command: its path, how often it was run, and whether it
+ * was set with `hash -p`.
+ */
+interface HashEntry {
+  path: string;
+  hits: number;
+  pinned: boolean;
+}
+
+const HASH_USAGE = "hash: usage: hash [-r] [-p pathname] [name ...]\n";
+
+// Listed PATH directories, keyed by absolute path
+const directories = new Map<string, DirectoryIndex>();
+// Remembered commands, keyed by name, in the order they were added
+const hashTable = new Map<string, HashEntry>();
+// PATH at the time of the last lookup, to notice assignments
+let hashedPath: string | undefined;
+
+/**
+ * Finds a command in PATH without remembering it.
+ *
+ * @param name - Command name; a name containing "/" is checked as it is
+ * @returns The command's path, or null if it is not an executable file in PATH
+ *
+ * @example
+ * lookupCommand("ls")   // "/usr/bin/ls"
+ */
+export function lookupCommand(name: string): string | null {
+  if (name.includes("/")) {
+    return isExecutableFile(name) ? name : null;
+  }
+
+  return getHashedCommand(name) ?? searchPath(name);
+}
+
+/**
+ * Finds a command that is about to run, and remembers it.
+ *
+ * @param name - Command name
+ * @returns The command's path, or null if it was not found
+ */
+export function hashCommand(name: string): string | null {
+  const fullPath = lookupCommand(name);
+
+  if (fullPath === null || name.includes("/")) {
+    return fullPath;
+  }
+
+  const entry = hashTable.get(name) ?? { path: fullPath, hits: 0, pinned: false };
+
+  hashTable.set(name, { ...entry, path: fullPath, hits: entry.hits + 1 });
+
+  return fullPath;
+}
+
+/**
+ * Looks up a remembered command. An entry whose file has gone is found
+ * again in PATH, or forgotten if it is not there any more.
+ *
+ * @param name - Command name
+ * @returns The command's path, or undefined if it is not remembered
+ */
+export function getHashedCommand(name: string): string | undefined {
+  checkPath();
+
+  const entry = hashTable.get(name);
+
+  if (!entry || entry.pinned) {
+    return entry?.path;
+  }
+
+  const fullPath = searchPath(name);
+
+  if (fullPath === null) {
+    hashTable.delete(name);
+
+    return undefined;
+  }
+
+  entry.path = fullPath;
+
+  return fullPath;
+}
+
+/**
+ * Lists the executable files in PATH, for completion.
+ *
+ * @returns Command names, each once
+ */
+export function getCommandNames(): string[] {
+  const names = new Set<string>();
+
+  for (const directory of getSearchDirectories()) {
+    for (const name of indexDirectory(directory)?.executables ?? []) {
+      names.add(name);
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Executes the hash builtin.
+ * Supports: hash, hash NAME..., hash -r, hash -p PATH NAME...
+ *
+ * @param args - Command arguments (excluding 'hash' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeHashCommand$(args: string[], io: CommandIO): Observable<number> {
+  const lines: string[] = [];
+  const errors: string[] = [];
+  let pinnedPath: string | undefined;
+  let i = 0;
+
+  checkPath();
+
+  for (; i < args.length && args[i].startsWith("-") && args[i] !== "-"; i++) {
+    if (args[i] === "--") {
+      i++;
+
+      break;
+    }
+
+    if (args[i] === "-r") {
+      hashTable.clear();
+    } else if (args[i] === "-p" && args[i + 1] !== undefined) {
+      pinnedPath = args[++i];
+    } else if (args[i] === "-p") {
+      return writeLines$(io.stderr, ["hash: -p: option requires an argument\n", HASH_USAGE]).pipe(map(() => 2));
+    } else {
+      return writeLines$(io.stderr, [`hash: ${args[i]}: invalid option\n`, HASH_USAGE]).pipe(map(() => 2));
+    }
+  }
+
+  const names = args.slice(i);
+
+  if (names.length === 0 && pinnedPath !== undefined) {
+    errors.push(HASH_USAGE);
+  } else if (names.length === 0 && !args.includes("-r")) {
+    lines.push(...formatHashTable());
+  }
+
+  for (const name of names) {
+    const fullPath = pinnedPath ?? (name.includes("/") ? null : searchPath(name));
+
+    if (fullPath === null) {
+      errors.push(`hash: ${name}: not found\n`);
+    } else if (!name.includes("/")) {
+      hashTable.set(name, { path: fullPath, hits: 0, pinned: pinnedPath !== undefined });
+    }
+  }
+
+  return writeLines$(io.stdout, lines).pipe(
+    concatMap(() => writeLines$(io.stderr, errors)),
+    map(() => errors.includes(HASH_USAGE) ? 2 : errors.length > 0 ? 1 : 0)
+  );
+}
+
+function formatHashTable(): string[] {
+  if (hashTable.size === 0) {
+    return ["hash: hash table empty\n"];
+  }
+
+  return [
+    "hits\tcommand\n",
+    ...[...hashTable.values()].map(entry => `${String(entry.hits).padStart(4)}\t${entry.path}\n`)
+  ];
+}
+
+/**
+ * Forgets every remembered command once PATH has been assigned.
+ */
+function checkPath(): void {
+  if (process.env.PATH !== hashedPath) {
+    hashedPath = process.env.PATH;
+    hashTable.clear();
+  }
+}
+
+/**
+ * Searches the PATH directories in order, through their index.
+ */
+function searchPath(name: string): string | null {
+  for (const directory of getSearchDirectories()) {
+    if (indexDirectory(directory)?.names.has(name)) {
+      const fullPath = path.join(directory, name);
+
+      if (isExecutableFile(fullPath)) {
+        return fullPath;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Splits PATH into directories; an empty entry is the current directory.
+ */
+function getSearchDirectories(): string[] {
+  return (process.env.PATH ?? "").split(path.delimiter).map(directory => directory || ".");
+}
+
+/**
+ * Returns a directory's index, listing it again if it changed since it was
+ * last listed.
+ */
+function indexDirectory(directory: string): DirectoryIndex | null {
+  const key = path.resolve(directory);
+  let mtimeMs: number;
+
+  try {
+    mtimeMs = fs.statSync(key).mtimeMs;
+  } catch {
+    directories.delete(key);
+
+    return null;
+  }
+
+  const cached = directories.get(key);
+
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached;
+  }
+
+  const index: DirectoryIndex = { mtimeMs, names: new Set(), executables: [] };
+
+  try {
+    for (const entry of fs.readdirSync(key, { withFileTypes: true })) {
+      index.names.add(entry.name);
+
+      if ((entry.isFile() || entry.isSymbolicLink()) && isExecutableFile(path.join(key, entry.name))) {
+        index.executables.push(entry.name);
+      }
+    }
+  } catch {}
+
+  directories.set(key, index);
+
+  return index;
+}
+
+function isExecutableFile(fullPath: string): boolean {
+  try {
+    const stats = fs.statSync(fullPath);
+
+    return stats.isFile() && (stats.mode & 0o111) !== 0;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Syntax Highlighting Module
+ *
+ * Colours the command line while it is typed, so that a mistyped command
+ * shows up before Enter rather than as "command not found". The line is
+ * split with the parser's own tokenizer (see tokenizeLine), so words,
+ * quotes and operators are seen exactly as they will be run.
+ *
+ * Colours:
+ * - Command names: green when they would run (a builtin, alias, function,
+ *   or a command findCommand finds in PATH), red otherwise
+ * - Reserved words where a command could start (if, then, for, {, ...): blue
+ * - Quoted strings: yellow; a quote or expansion left open is underlined
+ *   in red up to the end of the line
+ * - Operators (|, &&, ;, >, 2>&1, ...): cyan
+ * - Comments: grey
+ * Command names made of expansions, such as $EDITOR, keep the terminal's
+ * colour, since what they run is only known once they are expanded.
+ *
+ * Drawing: readline writes the line itself, plain, as it is edited. Every
+ * time it redraws the prompt and line, the line is written in colour
+ * instead, and a key that changed the line without a redraw (typing at the
+ * end) asks readline for one. Lines continuing an incomplete command are
+ * left plain, as they cannot be read on their own.
+ *
+ * Tab is left alone, since completion may list matches below the line; the
+ * completer redraws once it has inserted a completion, and shows the line
+ * again in colour after a list.
+ *
+ * Readline dependency: writing and redrawing go through _writeToOutput and
+ * _refreshLine, which are private to Node's readline rather than part of its
+ * API. They are only reached through getRenderingHooks, which checks that
+ * they exist; on a Node without them, the line is simply left plain.
+ */
+
+import type { Interface } from "node:readline";
+import { tokenizeLine, parseCommand, findExpansionEnd } from "./parser";
+import type { LineToken } from "./parser";
+import { isBuiltin, findCommand } from "./builtins";
+import { getAlias } from "./aliases";
+import { getFunction } from "./functions";
+import { isSearching, interceptKeypress } from "./search";
+
+/**
+ * The private readline methods highlighting hooks into: the one that writes
+ * text to the terminal, and the one that redraws the prompt and line.
+ */
+type RenderingInterface = Interface & {
+  _writeToOutput?: (text: string) => void;
+  _refreshLine?: () => void;
+};
+
+/**
+ * Access to readline's rendering, through its private methods.
+ */
+interface RenderingHooks {
+  // Sends the text readline writes through write, which gets readline's own writer
+  interceptWrites(write: (text: string, writeToOutput: (text: string) => void) => void): void;
+  // Redraws the prompt and line
+  refreshLine(): void;
+}
+
+const COLORS = {
+  command: "\x1b[32m",
+  unknown: "\x1b[31m",
+  keyword: "\x1b[34m",
+  string: "\x1b[33m",
+  unterminated: "\x1b[4;31m",
+  operator: "\x1b[36m",
+  comment: "\x1b[90m"
+};
+const RESET = "\x1b[0m";
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const REDIRECTION_PATTERN = /^[0-9]*(<|>|&>)/;
+// Reserved words after which another command can start
+const COMMAND_KEYWORDS = ["if", "then", "elif", "else", "while", "until", "do", "{", "!"];
+// Reserved words followed by something other than a command
+const OTHER_KEYWORDS = ["fi", "done", "esac", "}", "for", "case", "in", "function"];
+
+// The interface being highlighted, and the line as last drawn in colour
+let session: { rl: Interface, hooks: RenderingHooks, drawn: string, isContinued: () => boolean } | null = null;
+
+/**
+ * Adds syntax highlighting to a readline interface reading the terminal.
+ * The interface is left as it is if its readline lacks the private methods
+ * highlighting needs.
+ *
+ * @param rl - Interface created with terminal output
+ * @param input - The interface's input stream
+ * @param isContinued - Tells whether the line continues an incomplete
+ *   command, which it cannot be highlighted without
+ */
+export function setupHighlighting(rl: Interface, input: NodeJS.ReadStream, isContinued: () => boolean): void {
+  const hooks = getRenderingHooks(rl);
+
+  if (!hooks) {
+    return;
+  }
+
+  const current = { rl, hooks, drawn: "", isContinued };
+
+  session = current;
+
+  // Readline redraws a line by writing the prompt and the line together
+  hooks.interceptWrites((text, writeToOutput) => {
+    const prompt = rl.getPrompt();
+
+    if (rl.line !== "" && text === prompt + rl.line && !isContinued()) {
+      current.drawn = rl.line;
+      writeToOutput(prompt + highlightLine(rl.line));
+    } else {
+      writeToOutput(text);
+    }
+  });
+
+  // Keys reach the editor only through forward, so the line can be redrawn after them
+  interceptKeypress(input, (text, key, forward) => {
+    forward(text, key);
+
+    if (key?.name !== "tab") {
+      refreshHighlighting();
+    }
+  });
+  rl.on("line", () => {
+    current.drawn = "";
+  });
+}
+
+/**
+ * Has readline redraw the line in colour if it has changed since it was
+ * last drawn that way.
+ */
+export function refreshHighlighting(): void {
+  if (session && !isSearching() && !session.isContinued() && session.rl.line !== "" && session.rl.line !== session.drawn) {
+    session.hooks.refreshLine();
+  }
+}
+
+/**
+ * Returns hooks into readline's private rendering methods, or null if the
+ * interface does not have them.
+ */
+function getRenderingHooks(rl: Interface): RenderingHooks | null {
+  const output = rl as RenderingInterface;
+  const { _writeToOutput: writeToOutput, _refreshLine: refreshLine } = output;
+
+  if (typeof writeToOutput !== "function" || typeof refreshLine !== "function") {
+    return null;
+  }
+
+  return {
+    interceptWrites: write => {
+      const original = writeToOutput.bind(output);
+
+      output._writeToOutput = (text: string) => write(text, original);
+    },
+    refreshLine: () => refreshLine.call(output)
+  };
+}
+
+/**
+ * Colours a command line with terminal escape sequences.
+ *
+ * @param line - The line as typed
+ * @returns The same text with colours around its tokens
+ *
+ * @example
+ * highlightLine("ls | grep 'x")
+ * // Returns: "\x1b[32mls\x1b[0m \x1b[36m|\x1b[0m \x1b[32mgrep\x1b[0m \x1b[4;31m'x\x1b[0m"
+ */
+export function highlightLine(line: string): string {
+  const tokens = tokenizeLine(line);
+  let result = "";
+  let position = 0;
+  // Whether the next word would be run as a command, or is a redirection's target
+  let commandPosition = true;
+  let redirectionTarget = false;
+  // Whether a function's name was just given, and the parentheses open on the line
+  let functionName = false;
+  let openParentheses = 0;
+  // Whether a case item just ended with ;;, so that esac can follow
+  let caseItemEnd = false;
+
+  tokens.forEach((token, i) => {
+    const endsCase = caseItemEnd && token.text === "esac";
+
+    result += line.slice(position, token.start);
+    position = token.end;
+    caseItemEnd = token.type === "operator" && token.text === ";;";
+
+    if (token.type === "comment") {
+      result += color(token.text, COLORS.comment);
+    } else if (token.type === "newline") {
+      result += token.text;
+      commandPosition = true;
+    } else if (token.type === "operator") {
+      result += color(token.text, COLORS.operator);
+      redirectionTarget = REDIRECTION_PATTERN.test(token.text);
+      openParentheses += token.text === "(" ? 1 : token.text === ")" ? -1 : 0;
+      // A command follows the () after a function's name and the ) ending a case pattern, not ;;
+      commandPosition = redirectionTarget ? commandPosition
+        : token.text === ")" ? functionName || openParentheses < 0
+        : token.text !== ";;";
+      functionName = functionName && token.text === "(";
+      openParentheses = Math.max(openParentheses, 0);
+    } else if ((redirectionTarget || !commandPosition || token.unterminated) && !endsCase) {
+      result += highlightWord(token.text);
+      // The body follows the name after "function"
+      commandPosition = commandPosition || (functionName && !redirectionTarget);
+      redirectionTarget = false;
+    } else if (COMMAND_KEYWORDS.includes(token.text) || OTHER_KEYWORDS.includes(token.text)) {
+      result += color(token.text, COLORS.keyword);
+      commandPosition = COMMAND_KEYWORDS.includes(token.text);
+      functionName = token.text === "function";
+    } else if (ASSIGNMENT_PATTERN.test(token.text)) {
+      result += highlightWord(token.text);
+    } else {
+      result += highlightCommand(token, tokens[i + 1]);
+      commandPosition = false;
+      functionName = isOperatorToken(tokens[i + 1], "(");
+    }
+  });
+
+  return result + line.slice(position);
+}
+
+/**
+ * Colours a command name by whether it would run. Names made of
+ * expansions and the names of functions being defined keep their colour.
+ */
+function highlightCommand(token: LineToken, next: LineToken | undefined): string {
+  if (/[$`]/.test(token.text) || isOperatorToken(next, "(")) {
+    return highlightWord(token.text);
+  }
+
+  const name = parseCommand(token.text).join("");
+  const runs = isBuiltin(name) || getAlias(name) !== undefined || getFunction(name) !== undefined || findCommand(name) !== null;
+
+  return color(token.text, runs ? COLORS.command : COLORS.unknown);
+}
+
+/**
+ * Colours the quoted strings of a word, and an open quote or expansion
+ * with the rest of the word.
+ */
+function highlightWord(word: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < word.length) {
+    const char = word[i];
+    const end = char === "'" ? word.indexOf("'", i + 1)
+      : char === '"' ? findClosingQuote(word, i)
+      : char === "`" || (char === "$" && (word[i + 1] === "(" || word[i + 1] === "{")) ? findExpansionEnd(word, i)
+      : i;
+
+    if (end === -1) {
+      return result + color(word.slice(i), COLORS.unterminated);
+    }
+
+    if (char === "\\") {
+      result += word.slice(i, i + 2);
+      i += 2;
+    } else if (char === "'" || char === '"') {
+      result += color(word.slice(i, end + 1), COLORS.string);
+      i = end + 1;
+    } else {
+      result += word.slice(i, end + 1);
+      i = end + 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Finds the quote that closes a double-quoted string, past escaped
+ * characters and expansions, or -1.
+ */
+function findClosingQuote(word: string, start: number): number {
+  for (let i = start + 1; i < word.length; i++) {
+    if (word[i] === "\\") {
+      i++;
+    } else if (word[i] === '"') {
+      return i;
+    } else if (word[i] === "$" || word[i] === "`") {
+      const end = findExpansionEnd(word, i);
+
+      if (end === -1 && (word[i] === "`" || word[i + 1] === "(" || word[i + 1] === "{")) {
+        return -1;
+      }
+
+      i = end === -1 ? i : end;
+    }
+  }
+
+  return -1;
+}
+
+function isOperatorToken(token: LineToken | undefined, text: string): boolean {
+  return token?.type === "operator" && token.text === text;
+}
+
+function color(text: string, code: string): string {
+  return `${code}${text}${RESET}`;
+}
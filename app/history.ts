@@ -8,18 +8,305 @@
  * - Observable-based history commands
  * - HISTFILE integration for persistence
  * - Stream-based error handling
+ * - History expansion of lines typed at the terminal (see expandHistory)
+ * 
+ * Variables:
+ * - HISTSIZE: Number of commands kept in memory; unset, negative or not a
+ *   number means no limit
+ * - HISTFILESIZE: Number of commands kept in a history file, which is
+ *   truncated after every write; same rules as HISTSIZE
+ * - HISTCONTROL: Colon-separated list of ignorespace (skip commands that
+ *   start with a blank), ignoredups (skip a repeat of the previous command),
+ *   ignoreboth (both) and erasedups (remove earlier copies of a command)
+ * - HISTIGNORE: Colon-separated patterns of commands not to record; "&"
+ *   stands for the previous command
+ * - HISTTIMEFORMAT: When set, history shows when each command was run, in
+ *   this strftime format, and history files get a "#<epoch>" line before
+ *   each command
+ * - HISTDB: History database file (see below)
+ * 
+ * History database:
+ * - Every command read from stdin is recorded with its directory, exit
+ *   status, start time, running time and the shell session that ran it, as
+ *   one JSON object per line of HISTDB. Each record is a single append, so
+ *   shells sharing the file never interleave their records
+ * - Commands left out by ignorespace or HISTIGNORE patterns are not recorded
+ * - history --cwd, --failed, --since and --grep query the records; without
+ *   HISTDB they query the records of the current session
+ * - The commands run in each directory are kept in memory, so Ctrl-R can
+ *   offer them first (see isDirectoryCommand)
+ * 
+ * Sharing a history file between shells:
+ * - Every write holds FILE.lock, so shells writing at the same time never
+ *   interleave their commands. A lock older than STALE_LOCK_AGE is left over
+ *   from a shell that died and is removed
+ * - New commands are appended; the file is only rewritten, through a
+ *   temporary file, to truncate it
+ * - The shell counts the entries of each file it has read or written, so
+ *   history -n reads only the commands other shells added since
+ * - Commands read from a file go before the session's unsaved commands, so
+ *   they are never written back
+ * 
+ * History expansion (as in bash):
+ * - !!: The previous command
+ * - !n, !-n: Command n of the history list, the nth command back
+ * - !string: The most recent command starting with string
+ * - !$, !*: The last word, all arguments of the previous command
+ * - ^old^new: The previous command with the first "old" replaced by "new"
+ * - References are not expanded inside single quotes or after a backslash,
+ *   and "!" followed by a blank, "=", "(" or the end of the line stays as
+ *   it is, so `[ $a != b ]` and `$!` are safe
  * 
  * Commands supported:
  * - history: Display command history
  * - history N: Show last N commands
- * - history -r file: Read history from file
- * - history -w file: Write history to file
- * - history -a file: Append new commands to file
+ * - history -c: Clear the history list
+ * - history -d N: Delete entry N; a negative N counts back from the end
+ * - history -r [file]: Read history from file
+ * - history -w [file]: Write history to file
+ * - history -a [file]: Append new commands to file
+ * - history -n [file]: Read the commands added to file since it was last read
+ * The file defaults to HISTFILE.
+ * - history --cwd: Show the commands run in the current directory
+ * - history --failed: Show the commands that exited with a non-zero status
+ * - history --since DURATION: Show the commands started in the last DURATION,
+ *   a number with an s, m, h, d or w suffix (seconds by default)
+ * - history --grep PATTERN: Show the commands matching a regular expression
+ * The query options can be combined; the records are shown oldest first,
+ * with their time, status, running time and directory.
  */
 
 import { promises as fs } from "node:fs";
-import { Observable, of, from } from "rxjs";
-import { map, catchError } from "rxjs/operators";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { Observable, of, from, defer, timer, throwError } from "rxjs";
+import { map, catchError, concatMap, retry } from "rxjs/operators";
+import { getVariable } from "./variables";
+import { matchesPattern } from "./glob";
+import { formatDate } from "./prompt";
+import { writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+/**
+ * Raised for a history reference that matches no command.
+ */
+export class HistoryExpansionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryExpansionError";
+  }
+}
+
+/**
+ * A command read from a history file: its text, its time if the file
+ * records one, and the lines it takes up in the file.
+ */
+interface FileEntry {
+  command: string;
+  time?: number;
+  text: string;
+}
+
+/**
+ * A command as recorded in the history database.
+ */
+interface HistoryRecord {
+  command: string;
+  cwd: string;
+  exitCode: number;
+  // Start time in seconds since the epoch
+  time: number;
+  // Running time in ms
+  duration: number;
+  session: string;
+}
+
+/**
+ * Conditions of a history query; records must meet all of them.
+ */
+interface HistoryQuery {
+  cwd?: string;
+  failed: boolean;
+  since?: number;
+  pattern?: RegExp;
+}
+
+/**
+ * How a history list has changed other than by commands added at its end:
+ * edits counts the entries removed or inserted elsewhere, and dropped the
+ * oldest entries HISTSIZE trimmed away. An index of the list can follow
+ * added and dropped entries, and has to start over after an edit.
+ */
+export interface HistoryChanges {
+  edits: number;
+  dropped: number;
+}
+
+type HistoryResult = { newLastAppendedIndex: number, exitCode: number };
+
+// A history reference: !!, !n, !-n, !$, !* or !string
+const REFERENCE_PATTERN = /^!(!|-?[0-9]+|\$|\*|[^\s;&|<>()'"`:=]+)/;
+// Attempts at taking a file's lock, LOCK_RETRY_DELAY ms apart, before writing without it
+const LOCK_ATTEMPTS = 40;
+const LOCK_RETRY_DELAY = 25;
+// Age in ms after which a lock is taken to be left over from a shell that died
+const STALE_LOCK_AGE = 5000;
+// Seconds in each unit of a --since duration
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+// Identifies this shell's records in the history database
+const SESSION_ID = randomUUID();
+
+// When each command of a history list was added, in seconds since the epoch
+const entryTimes = new WeakMap<string[], number[]>();
+// Changes to each history list, for indexes of it
+const listChanges = new WeakMap<string[], HistoryChanges>();
+// Number of entries the shell has read from or written to each history file, by absolute path
+const entriesSeen = new Map<string, number>();
+// Commands recorded by this session, queried when there is no HISTDB
+const sessionRecords: HistoryRecord[] = [];
+// Commands run in each directory, from the history database and this session
+const directoryCommands = new Map<string, Set<string>>();
+
+/**
+ * Records a command in the history list, unless HISTCONTROL or HISTIGNORE
+ * leave it out, and trims the list to HISTSIZE.
+ * 
+ * @param commandHistory - Array of previously executed commands
+ * @param line - The command as typed
+ * @param lastAppendedIndex - Index of last previously saved command
+ * @returns The index of the last saved command once entries have moved
+ * 
+ * @example
+ * // HISTCONTROL=ignoredups
+ * addHistoryEntry(["ls"], "ls", 0)   // 0, and the list stays ["ls"]
+ */
+export function addHistoryEntry(commandHistory: string[], line: string, lastAppendedIndex: number): number {
+  const control = (getVariable("HISTCONTROL") ?? "").split(":");
+  const command = line.trim();
+  const previous = commandHistory[commandHistory.length - 1];
+  let appendedIndex = lastAppendedIndex;
+
+  if (isIgnored(line, previous)) {
+    return lastAppendedIndex;
+  }
+
+  if ((control.includes("ignoredups") || control.includes("ignoreboth")) && command === previous) {
+    return lastAppendedIndex;
+  }
+
+  if (control.includes("erasedups")) {
+    for (let i = commandHistory.length - 1; i >= 0; i--) {
+      if (commandHistory[i] === command) {
+        appendedIndex = removeHistoryEntry(commandHistory, i, appendedIndex);
+      }
+    }
+  }
+
+  commandHistory.push(command);
+  getTimes(commandHistory).push(currentTime());
+
+  return trimHistory(commandHistory, appendedIndex);
+}
+
+/**
+ * Removes an entry from the history list.
+ * 
+ * @param commandHistory - Array of previously executed commands
+ * @param index - Index of the entry to remove
+ * @param lastAppendedIndex - Index of last previously saved command
+ * @returns The index of the last saved command once entries have moved
+ */
+export function removeHistoryEntry(commandHistory: string[], index: number, lastAppendedIndex: number): number {
+  getTimes(commandHistory).splice(index, 1);
+  commandHistory.splice(index, 1);
+  getHistoryChanges(commandHistory).edits++;
+
+  return lastAppendedIndex - (index < lastAppendedIndex ? 1 : 0);
+}
+
+/**
+ * Tells how a history list has changed since it was created, so that an
+ * index of it can catch up.
+ * 
+ * @param commandHistory - Array of previously executed commands
+ * @returns The list's change counts, updated as it changes
+ */
+export function getHistoryChanges(commandHistory: string[]): HistoryChanges {
+  const changes = listChanges.get(commandHistory) ?? { edits: 0, dropped: 0 };
+
+  listChanges.set(commandHistory, changes);
+
+  return changes;
+}
+
+/**
+ * Records a finished command in the history database, unless ignorespace
+ * or a HISTIGNORE pattern leaves it out.
+ * 
+ * @param line - The command as typed
+ * @param cwd - Directory the command started in
+ * @param startedAt - When the command started, in ms since the epoch
+ * @param exitCode - The command's exit status
+ * @returns Observable that completes once the record is written
+ */
+export function recordCommand$(line: string, cwd: string, startedAt: number, exitCode: number): Observable<void> {
+  const database = getVariable("HISTDB");
+
+  if (isIgnored(line, undefined)) {
+    return of(void 0);
+  }
+
+  const record: HistoryRecord = {
+    command: line.trim(),
+    cwd,
+    exitCode,
+    time: Math.floor(startedAt / 1000),
+    duration: Date.now() - startedAt,
+    session: SESSION_ID
+  };
+
+  sessionRecords.push(record);
+  indexRecord(record);
+
+  if (!database) {
+    return of(void 0);
+  }
+
+  return from(fs.appendFile(database, `${JSON.stringify(record)}\n`)).pipe(
+    catchError(() => of(void 0))
+  );
+}
+
+/**
+ * Reads the history database, if HISTDB is set, to learn which commands
+ * were run in which directory.
+ * 
+ * @returns Observable that completes once the database is read
+ */
+export function loadHistoryDatabase$(): Observable<void> {
+  const database = getVariable("HISTDB");
+
+  if (!database) {
+    return of(void 0);
+  }
+
+  return readHistoryDatabase$(database).pipe(
+    map(records => records.forEach(indexRecord)),
+    catchError(() => of(void 0))
+  );
+}
+
+/**
+ * Tells whether a command was run in a directory, according to the history
+ * database and this session.
+ * 
+ * @param command - Command as recorded in the history
+ * @param directory - Absolute directory path
+ * @returns True if the command was run there
+ */
+export function isDirectoryCommand(command: string, directory: string): boolean {
+  return directoryCommands.get(directory)?.has(command) ?? false;
+}
 
 /**
  * Loads command history from a file into memory asynchronously.
@@ -29,15 +316,14 @@ import { map, catchError } from "rxjs/operators";
  * @returns Observable of number of commands loaded (used as lastAppendedIndex)
  */
 export function loadHistoryFromFile$(histfile: string, commandHistory: string[]): Observable<number> {
-  return from(fs.readFile(histfile, "utf8")).pipe(
-    map(fileContent => {
-      const lines = fileContent.split("\n").filter(line => line.trim() !== "");
-
-      commandHistory.push(...lines);
+  return readHistoryFile$(histfile).pipe(
+    map(entries => {
+      entriesSeen.set(path.resolve(histfile), entries.length);
+      insertEntries(commandHistory, entries, commandHistory.length);
 
-      return commandHistory.length;
+      return trimHistory(commandHistory, commandHistory.length);
     }),
-    catchError(() => of(0))
+    catchError(() => of(commandHistory.length))
   );
 }
 
@@ -50,73 +336,591 @@ export function loadHistoryFromFile$(histfile: string, commandHistory: string[])
  * @param lastAppendedIndex - Index of last previously saved command
  */
 export function saveHistoryToFile$(histfile: string, commandHistory: string[], lastAppendedIndex: number): Observable<void> {
-  const newCommands = commandHistory.slice(lastAppendedIndex);
-
-  if (newCommands.length === 0) {
-    return of(void 0);
-  }
-
-  const appendContent = `${newCommands.join("\n")}\n`;
-
-  return from(fs.appendFile(histfile, appendContent)).pipe(
+  return appendHistory$(histfile, commandHistory, lastAppendedIndex).pipe(
+    map(() => void 0),
     catchError(() => of(void 0))
   );
 }
 
 /**
  * Executes history command with various flags and arguments asynchronously.
- * Supports: history, history N, history -r file, history -w file, history -a file
+ * Supports: history, history N, history -c, history -d N, -r, -w, -a
+ * and -n with an optional file, and the query options --cwd, --failed,
+ * --since DURATION and --grep PATTERN
  * 
  * @param args - Command arguments (excluding 'history' itself)
+ * @param io - Streams of the builtin; the listing goes to io.stdout
  * @param commandHistory - Array containing all commands
  * @param lastAppendedIndex - Index tracking last appended entry
- * @returns Observable with command output and updated append index
+ * @returns Observable with updated append index and exit status
  */
-export function executeHistoryCommand$(args: string[], commandHistory: string[], lastAppendedIndex: number): Observable<{ result: string, newLastAppendedIndex: number }> {
-  if (args[0] === "-r" && args[1]) {
-    // Read history from file and append to current history
-    return from(fs.readFile(args[1], "utf8")).pipe(
-      map(fileContent => {
-        const lines = fileContent.split("\n").filter(line => line.trim() !== "");
-
-        commandHistory.push(...lines);
+export function executeHistoryCommand$(
+  args: string[],
+  io: CommandIO,
+  commandHistory: string[],
+  lastAppendedIndex: number
+): Observable<HistoryResult> {
+  const fail = (message: string, exitCode: number) => writeLines$(io.stderr, [`history: ${message}\n`]).pipe(
+    map(() => ({ newLastAppendedIndex: lastAppendedIndex, exitCode }))
+  );
 
-        return { result: "", newLastAppendedIndex: lastAppendedIndex };
-      }),
-      catchError(() => of({ result: "", newLastAppendedIndex: lastAppendedIndex }))
+  if (args[0]?.startsWith("--")) {
+    return executeHistoryQuery$(args, io).pipe(
+      map(exitCode => ({ newLastAppendedIndex: lastAppendedIndex, exitCode }))
     );
-  } else if (args[0] === "-w" && args[1]) {
-    // Write entire history to file (overwrite)
-    const historyContent = `${commandHistory.join('\n')}\n`;
+  }
 
-    return from(fs.writeFile(args[1], historyContent)).pipe(
-      map(() => ({ result: "", newLastAppendedIndex: lastAppendedIndex })),
-      catchError(() => of({ result: "", newLastAppendedIndex: lastAppendedIndex }))
-    );
-  } else if (args[0] === "-a" && args[1]) {
-    // Append new history entries to file
-    const newCommands = commandHistory.slice(lastAppendedIndex);
-    
-    if (newCommands.length === 0) {
-      return of({ result: "", newLastAppendedIndex: lastAppendedIndex });
+  if (args[0] === "-c") {
+    commandHistory.length = 0;
+    getTimes(commandHistory).length = 0;
+    getHistoryChanges(commandHistory).edits++;
+
+    return of({ newLastAppendedIndex: 0, exitCode: 0 });
+  }
+
+  if (args[0] === "-d") {
+    if (args[1] === undefined) {
+      return fail("-d: option requires an argument", 2);
+    }
+
+    const position = /^-?[0-9]+$/.test(args[1]) ? parseInt(args[1], 10) : 0;
+    const index = position < 0 ? commandHistory.length + position : position - 1;
+
+    if (position === 0 || index < 0 || index >= commandHistory.length) {
+      return fail(`${args[1]}: history position out of range`, 1);
+    }
+
+    return of({ newLastAppendedIndex: removeHistoryEntry(commandHistory, index, lastAppendedIndex), exitCode: 0 });
+  }
+
+  if (["-r", "-w", "-a", "-n"].includes(args[0])) {
+    const file = args[1] ?? getVariable("HISTFILE");
+
+    if (!file) {
+      return fail(`${args[0]}: no history file given and HISTFILE is not set`, 1);
     }
-    
-    const appendContent = `${newCommands.join('\n')}\n`;
 
-    return from(fs.appendFile(args[1], appendContent)).pipe(
-      map(() => ({ result: "", newLastAppendedIndex: commandHistory.length })),
-      catchError(() => of({ result: "", newLastAppendedIndex: lastAppendedIndex }))
+    const result$ = args[0] === "-r" ? readHistory$(file, commandHistory, lastAppendedIndex, false)
+      : args[0] === "-n" ? readHistory$(file, commandHistory, lastAppendedIndex, true)
+      : args[0] === "-w" ? writeHistory$(file, commandHistory)
+      : appendHistory$(file, commandHistory, lastAppendedIndex);
+
+    return result$.pipe(
+      map(newLastAppendedIndex => ({ newLastAppendedIndex, exitCode: 0 })),
+      catchError(() => of({ newLastAppendedIndex: lastAppendedIndex, exitCode: 1 }))
     );
-  } else {
-    // Display history (optionally limited to last N entries)
-    const limit = args[0] ? parseInt(args[0], 10) : commandHistory.length;
-    const startIndex = Math.max(0, commandHistory.length - limit);
-    let result = "";
+  }
+
+  // Display history (optionally limited to last N entries)
+  const limit = args[0] ? parseInt(args[0], 10) : commandHistory.length;
+  const startIndex = Math.max(0, commandHistory.length - limit);
+  const timeFormat = getVariable("HISTTIMEFORMAT");
+  const times = getTimes(commandHistory);
+  const lines = commandHistory
+    .slice(startIndex)
+    .map((command, offset) => {
+      const time = timeFormat === undefined ? "" : formatDate(timeFormat, new Date(times[startIndex + offset] * 1000));
+
+      return `    ${startIndex + offset + 1}  ${time}${command}\n`;
+    });
+
+  return writeLines$(io.stdout, lines).pipe(
+    map(() => ({ newLastAppendedIndex: lastAppendedIndex, exitCode: 0 }))
+  );
+}
+
+/**
+ * Runs history with query options: shows the matching records of the
+ * history database, or of this session without one.
+ * 
+ * @returns Observable of the exit status
+ */
+function executeHistoryQuery$(args: string[], io: CommandIO): Observable<number> {
+  const query = parseHistoryQuery(args);
+
+  if (typeof query === "string") {
+    return writeLines$(io.stderr, [`history: ${query}\n`]).pipe(map(() => 2));
+  }
+
+  const database = getVariable("HISTDB");
+  const records$ = database ? readHistoryDatabase$(database) : of(sessionRecords);
+  const timeFormat = getVariable("HISTTIMEFORMAT") ?? "%F %T  ";
+
+  return records$.pipe(
+    concatMap(records => writeLines$(io.stdout, records
+      .filter(record => matchesQuery(record, query))
+      .map(record => [
+        formatDate(timeFormat, new Date(record.time * 1000)),
+        String(record.exitCode).padStart(3),
+        formatDuration(record.duration).padStart(8),
+        `  ${record.cwd}  ${record.command}\n`
+      ].join("")))),
+    map(() => 0),
+    catchError(() => writeLines$(io.stderr, [`history: ${database}: cannot read history database\n`]).pipe(map(() => 1)))
+  );
+}
+
+/**
+ * Parses the query options of history.
+ * 
+ * @returns The query, or an error message
+ * 
+ * @example
+ * parseHistoryQuery(["--failed", "--since", "2h"])
+ * // Returns: { failed: true, since: <now - 7200> }
+ */
+function parseHistoryQuery(args: string[]): HistoryQuery | string {
+  const query: HistoryQuery = { failed: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i];
+
+    if (option === "--cwd") {
+      query.cwd = process.cwd();
+    } else if (option === "--failed") {
+      query.failed = true;
+    } else if ((option === "--since" || option === "--grep") && args[i + 1] === undefined) {
+      return `${option}: option requires an argument`;
+    } else if (option === "--since") {
+      const value = args[++i];
+      const duration = /^([0-9]+)([smhdw]?)$/.exec(value);
+
+      if (!duration) {
+        return `--since: ${value}: invalid duration`;
+      }
+
+      query.since = currentTime() - parseInt(duration[1], 10) * DURATION_UNITS[duration[2] || "s"];
+    } else if (option === "--grep") {
+      const value = args[++i];
+
+      try {
+        query.pattern = new RegExp(value);
+      } catch {
+        return `--grep: ${value}: invalid regular expression`;
+      }
+    } else {
+      return `${option}: invalid option`;
+    }
+  }
+
+  return query;
+}
+
+function matchesQuery(record: HistoryRecord, query: HistoryQuery): boolean {
+  return (query.cwd === undefined || record.cwd === query.cwd)
+    && (!query.failed || record.exitCode !== 0)
+    && (query.since === undefined || record.time >= query.since)
+    && (query.pattern === undefined || query.pattern.test(record.command));
+}
+
+/**
+ * Formats a running time for a query result.
+ * 
+ * @example
+ * formatDuration(83500)   // "1m23s"
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(2)}s`;
+  }
+
+  return `${Math.floor(ms / 60000)}m${Math.floor(ms / 1000) % 60}s`;
+}
+
+/**
+ * Reads the records of a history database; lines that are not records,
+ * such as one cut short by a crash, are skipped.
+ */
+function readHistoryDatabase$(database: string): Observable<HistoryRecord[]> {
+  return from(fs.readFile(database, "utf8")).pipe(
+    map(content => content.split("\n").flatMap(line => {
+      try {
+        const record = JSON.parse(line) as HistoryRecord;
+
+        return typeof record?.command === "string" && typeof record.cwd === "string" ? [record] : [];
+      } catch {
+        return [];
+      }
+    }))
+  );
+}
+
+function indexRecord(record: HistoryRecord): void {
+  const commands = directoryCommands.get(record.cwd) ?? new Set<string>();
+
+  commands.add(record.command);
+  directoryCommands.set(record.cwd, commands);
+}
+
+/**
+ * Tells whether ignorespace or HISTIGNORE leave a command out of the
+ * history.
+ * 
+ * @param line - The command as typed
+ * @param previous - The previous history entry, for the "&" pattern
+ */
+function isIgnored(line: string, previous: string | undefined): boolean {
+  const control = (getVariable("HISTCONTROL") ?? "").split(":");
+  const ignorePatterns = (getVariable("HISTIGNORE") ?? "").split(":").filter(Boolean);
+  const command = line.trim();
+
+  if ((control.includes("ignorespace") || control.includes("ignoreboth")) && /^\s/.test(line)) {
+    return true;
+  }
+
+  return ignorePatterns.some(pattern => pattern === "&"
+    ? command === previous
+    : matchesPattern(command, [{ text: pattern, quoted: false, expanded: false }]));
+}
+
+/**
+ * Reads a history file into the list, before the unsaved commands: all of
+ * it (history -r), or only the entries added since the shell last saw the
+ * file (history -n).
+ * 
+ * @returns Observable of the index of the last saved command
+ */
+function readHistory$(file: string, commandHistory: string[], lastAppendedIndex: number, onlyNew: boolean): Observable<number> {
+  return withFileLock$(file, () => readHistoryFile$(file)).pipe(
+    map(entries => {
+      const seen = entriesSeen.get(path.resolve(file)) ?? 0;
+      // A file with fewer entries than were seen has been truncated by another shell
+      const added = !onlyNew ? entries : entries.length > seen ? entries.slice(seen) : [];
+
+      entriesSeen.set(path.resolve(file), entries.length);
+      insertEntries(commandHistory, added, lastAppendedIndex);
+
+      return trimHistory(commandHistory, lastAppendedIndex + added.length);
+    })
+  );
+}
+
+/**
+ * Replaces a history file with the whole list (history -w).
+ * 
+ * @returns Observable of the index of the last saved command: all of them
+ */
+function writeHistory$(file: string, commandHistory: string[]): Observable<number> {
+  const text = formatFileEntries(commandHistory, getTimes(commandHistory));
+
+  return withFileLock$(file, () => from(fs.writeFile(file, text)).pipe(
+    concatMap(() => truncateHistoryFile$(file))
+  )).pipe(
+    map(() => commandHistory.length)
+  );
+}
+
+/**
+ * Appends the commands not saved yet to a history file (history -a and
+ * the save on exit), then truncates it to HISTFILESIZE.
+ * 
+ * @returns Observable of the index of the last saved command: all of them
+ */
+function appendHistory$(file: string, commandHistory: string[], lastAppendedIndex: number): Observable<number> {
+  const commands = commandHistory.slice(lastAppendedIndex);
+
+  if (commands.length === 0) {
+    return of(lastAppendedIndex);
+  }
+
+  const text = formatFileEntries(commands, getTimes(commandHistory).slice(lastAppendedIndex));
+
+  return withFileLock$(file, () => from(fs.appendFile(file, text)).pipe(
+    concatMap(() => truncateHistoryFile$(file))
+  )).pipe(
+    map(() => commandHistory.length)
+  );
+}
+
+/**
+ * Keeps the last HISTFILESIZE entries of a history file, and records how
+ * many it has. Runs while the file's lock is held.
+ */
+function truncateHistoryFile$(file: string): Observable<void> {
+  const limit = readLimit("HISTFILESIZE");
+
+  return readHistoryFile$(file).pipe(
+    concatMap(entries => {
+      const kept = limit === undefined ? entries : entries.slice(Math.max(entries.length - limit, 0));
+
+      entriesSeen.set(path.resolve(file), kept.length);
+
+      if (kept.length === entries.length) {
+        return of(void 0);
+      }
+
+      const temporaryFile = `${file}.${process.pid}.tmp`;
+
+      return from(fs.writeFile(temporaryFile, kept.map(entry => entry.text).join(""))).pipe(
+        concatMap(() => from(fs.rename(temporaryFile, file)))
+      );
+    })
+  );
+}
+
+function readHistoryFile$(file: string): Observable<FileEntry[]> {
+  return from(fs.readFile(file, "utf8")).pipe(map(parseHistoryFile));
+}
+
+/**
+ * Splits a history file into entries. A "#<epoch>" line gives the time of
+ * the command on the next line.
+ * 
+ * @example
+ * parseHistoryFile("#1716710400\nls\npwd\n")
+ * // Returns: [{ command: "ls", time: 1716710400, text: "#1716710400\nls\n" }, { command: "pwd", text: "pwd\n" }]
+ */
+function parseHistoryFile(content: string): FileEntry[] {
+  const entries: FileEntry[] = [];
+  let stamp: RegExpExecArray | null = null;
+
+  for (const line of content.split("\n")) {
+    if (/^#[0-9]+$/.test(line)) {
+      stamp = /^#([0-9]+)$/.exec(line);
+
+      continue;
+    }
+
+    if (line.trim() === "") {
+      continue;
+    }
+
+    entries.push(stamp
+      ? { command: line, time: parseInt(stamp[1], 10), text: `${stamp[0]}\n${line}\n` }
+      : { command: line, text: `${line}\n` });
+    stamp = null;
+  }
+
+  return entries;
+}
+
+/**
+ * Formats commands for a history file, with timestamps if HISTTIMEFORMAT
+ * is set.
+ */
+function formatFileEntries(commands: string[], times: number[]): string {
+  const withTimes = getVariable("HISTTIMEFORMAT") !== undefined;
+
+  return commands.map((command, index) => `${withTimes ? `#${times[index]}\n` : ""}${command}\n`).join("");
+}
+
+/**
+ * Runs a write to a history file while holding its lock. If the lock
+ * cannot be had in time, the write goes ahead anyway rather than losing
+ * the history.
+ */
+function withFileLock$<T>(file: string, work: () => Observable<T>): Observable<T> {
+  const lockFile = `${file}.lock`;
+
+  return acquireLock$(lockFile).pipe(
+    concatMap(locked => work().pipe(
+      concatMap(result => releaseLock$(lockFile, locked).pipe(map(() => result))),
+      catchError(error => releaseLock$(lockFile, locked).pipe(concatMap(() => throwError(() => error))))
+    ))
+  );
+}
+
+/**
+ * Creates a lock file, waiting while another shell holds it.
+ * 
+ * @returns Observable of whether the lock was taken
+ */
+function acquireLock$(lockFile: string): Observable<boolean> {
+  return defer(() => from(fs.writeFile(lockFile, `${process.pid}\n`, { flag: "wx" }))).pipe(
+    retry({
+      count: LOCK_ATTEMPTS,
+      delay: (error: NodeJS.ErrnoException) => error.code === "EEXIST"
+        ? removeStaleLock$(lockFile).pipe(concatMap(() => timer(LOCK_RETRY_DELAY)))
+        : throwError(() => error)
+    }),
+    map(() => true),
+    catchError(() => of(false))
+  );
+}
+
+function removeStaleLock$(lockFile: string): Observable<void> {
+  return from(fs.stat(lockFile)).pipe(
+    concatMap(stats => Date.now() - stats.mtimeMs > STALE_LOCK_AGE ? from(fs.unlink(lockFile)) : of(void 0)),
+    catchError(() => of(void 0))
+  );
+}
+
+function releaseLock$(lockFile: string, locked: boolean): Observable<void> {
+  return locked ? from(fs.unlink(lockFile)).pipe(catchError(() => of(void 0))) : of(void 0);
+}
+
+/**
+ * Returns the times of a history list's entries, kept in step with it.
+ */
+function getTimes(commandHistory: string[]): number[] {
+  const times = entryTimes.get(commandHistory) ?? [];
+
+  // Entries added without addHistoryEntry count as added now
+  while (times.length < commandHistory.length) {
+    times.push(currentTime());
+  }
+
+  times.length = commandHistory.length;
+  entryTimes.set(commandHistory, times);
+
+  return times;
+}
+
+function insertEntries(commandHistory: string[], entries: FileEntry[], index: number): void {
+  const now = currentTime();
+
+  getTimes(commandHistory).splice(index, 0, ...entries.map(entry => entry.time ?? now));
+  commandHistory.splice(index, 0, ...entries.map(entry => entry.command));
+
+  if (index < commandHistory.length - entries.length) {
+    getHistoryChanges(commandHistory).edits++;
+  }
+}
+
+/**
+ * Drops the oldest entries beyond HISTSIZE.
+ * 
+ * @returns The index of the last saved command after the drop
+ */
+function trimHistory(commandHistory: string[], lastAppendedIndex: number): number {
+  const limit = readLimit("HISTSIZE");
+  const excess = limit === undefined ? 0 : commandHistory.length - limit;
+
+  if (excess <= 0) {
+    return lastAppendedIndex;
+  }
+
+  commandHistory.splice(0, excess);
+  getTimes(commandHistory).splice(0, excess);
+  getHistoryChanges(commandHistory).dropped += excess;
+
+  return Math.max(lastAppendedIndex - excess, 0);
+}
 
-    for (let i = startIndex; i < commandHistory.length; i++) {
-      result += `    ${i + 1}  ${commandHistory[i]}\n`;
+/**
+ * Reads HISTSIZE or HISTFILESIZE; undefined means no limit.
+ */
+function readLimit(name: string): number | undefined {
+  const value = getVariable(name);
+
+  return value !== undefined && /^[0-9]+$/.test(value) ? parseInt(value, 10) : undefined;
+}
+
+function currentTime(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Expands the history references in a line typed at the terminal.
+ *
+ * @param line - The line as typed
+ * @param commandHistory - Earlier commands, oldest first
+ * @returns The line with every reference replaced
+ * @throws HistoryExpansionError if a reference matches no command
+ *
+ * @example
+ * expandHistory("sudo !!", ["apt update"])   // "sudo apt update"
+ * expandHistory("^upd^upgr", ["apt update"]) // "apt upgrade"
+ */
+export function expandHistory(line: string, commandHistory: string[]): string {
+  if (line.startsWith("^")) {
+    return substitutePrevious(line, commandHistory);
+  }
+
+  let result = "";
+  let quote = "";
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === "\\" && quote !== "'") {
+      result += line.slice(i, i + 2);
+      i++;
+
+      continue;
+    }
+
+    if ((char === "'" || char === '"') && (!quote || quote === char)) {
+      quote = quote ? "" : char;
+    }
+
+    const reference = char === "!" && quote !== "'" && !isLiteralBang(line, i, quote) ? REFERENCE_PATTERN.exec(line.slice(i)) : null;
+
+    if (!reference) {
+      result += char;
+
+      continue;
     }
 
-    return of({ result, newLastAppendedIndex: lastAppendedIndex });
+    result += resolveReference(reference[1], commandHistory);
+    i += reference[0].length - 1;
   }
+
+  return result;
+}
+
+/**
+ * Checks whether a "!" is an ordinary character: before a blank, "=", "("
+ * or the end of the line, before the closing double quote, or part of $!
+ * or ${!name}.
+ */
+function isLiteralBang(line: string, index: number, quote: string): boolean {
+  const next = line[index + 1];
+
+  return next === undefined || /[\s=(]/.test(next) || (quote === '"' && next === '"')
+    || line[index - 1] === "$" || line.slice(index - 2, index) === "${";
+}
+
+function resolveReference(reference: string, commandHistory: string[]): string {
+  const previous = commandHistory[commandHistory.length - 1];
+  let command: string | undefined;
+
+  if (reference === "!" || reference === "$" || reference === "*") {
+    command = previous;
+  } else if (/^-?[0-9]+$/.test(reference)) {
+    const number = parseInt(reference, 10);
+
+    command = number > 0 ? commandHistory[number - 1] : number < 0 ? commandHistory[commandHistory.length + number] : undefined;
+  } else {
+    command = commandHistory.findLast(entry => entry.startsWith(reference));
+  }
+
+  if (command === undefined) {
+    throw new HistoryExpansionError(`!${reference}: event not found`);
+  }
+
+  const words = splitHistoryWords(command);
+
+  return reference === "$" ? words[words.length - 1] ?? ""
+    : reference === "*" ? words.slice(1).join(" ")
+    : command;
+}
+
+/**
+ * Expands ^old^new[^]: the previous command with its first "old" replaced.
+ */
+function substitutePrevious(line: string, commandHistory: string[]): string {
+  const [, search, replacement, rest] = /^\^([^^]*)\^([^^]*)\^?(.*)$/.exec(line) ?? [, line.slice(1), "", ""];
+  const previous = commandHistory[commandHistory.length - 1];
+
+  if (previous === undefined) {
+    throw new HistoryExpansionError("!!: event not found");
+  }
+
+  if (!search || !previous.includes(search)) {
+    throw new HistoryExpansionError(`:s^${search}^${replacement}^: substitution failed`);
+  }
+
+  return previous.replace(search, () => replacement) + rest;
+}
+
+/**
+ * Splits a command into words at unquoted blanks, keeping quotes in place.
+ */
+function splitHistoryWords(command: string): string[] {
+  return command.match(/(?:[^\s'"\\]+|\\.|'[^']*'?|"(?:[^"\\]|\\.)*"?)+/g) ?? [];
 }
@@ -0,0 +1,320 @@
+/**
+ * Interpreter Module
+ *
+ * Runs compound commands by walking their syntax tree. The lists inside
+ * them (conditions and bodies) go back through the executor's command-list
+ * path, so simple commands, pipelines, redirections and jobs behave exactly
+ * as they do at the top level.
+ *
+ * Compound commands supported:
+ * - { list; }: Run the list in the current shell
+ * - ( list ): Run the list as a subshell: variables, functions, options,
+ *   the working directory and `exit` are kept local to it (see subshell.ts)
+ * - if/elif/else: Run the body of the first condition that succeeds
+ * - while/until: Repeat the body while the condition succeeds / fails
+ * - for: Run the body once per word, with the word in the loop variable
+ * - case: Run the list of the first pattern that matches the word
+ *
+ * Commands supported:
+ * - break [n]: Leave the innermost n loops
+ * - continue [n]: Skip to the next iteration of the nth enclosing loop
+ *
+ * A compound command's status is that of the last command it ran, or 0 if
+ * it ran none. Every loop iteration starts asynchronously, so a loop of
+ * builtins that finish synchronously does not grow the call stack.
+ */
+
+import { Observable, EMPTY, of, from, defer, asapScheduler } from "rxjs";
+import { map, tap, switchMap, concatMap, first, last, expand, finalize, subscribeOn } from "rxjs/operators";
+import type { CommandListEntry, CompoundCommand, IfCommand, LoopCommand, ForCommand, CaseCommand } from "./parser";
+import type { CommandResult } from "./executor";
+import { expandWords$, expandWord$, expandPattern$ } from "./expansion";
+import type { CommandSubstituter } from "./expansion";
+import { matchesPattern } from "./glob";
+import { setVariable } from "./variables";
+import { getPositionalParameters } from "./parameters";
+import { runInSubshell$, withinSubshellContext$, getActiveSubshellContext } from "./subshell";
+import type { SubshellContext } from "./subshell";
+import { write$ } from "./io";
+import type { CommandIO } from "./io";
+
+/**
+ * Runs a command list with the given I/O.
+ */
+export type ListRunner = (list: CommandListEntry[], lastAppendedIndex: number, io: CommandIO) => Observable<CommandResult>;
+
+/**
+ * A pending break or continue, passed up through the enclosing lists until
+ * it reaches the loop it applies to.
+ */
+export interface LoopControl {
+  action: "break" | "continue";
+  levels: number;
+}
+
+// List runner with the compound command's I/O already applied
+type BoundRunner = (list: CommandListEntry[], lastAppendedIndex: number) => Observable<CommandResult>;
+
+// State between loop iterations; final is set once the loop is over
+interface LoopStep {
+  exitCode: number;
+  historyIndex: number;
+  final?: CommandResult;
+}
+
+// Number of loops currently running, for break and continue
+let loopDepth = 0;
+
+/**
+ * Executes a compound command whose redirections have already been applied.
+ *
+ * @param command - Parsed compound command
+ * @param runList - Executes the lists inside the command
+ * @param substitute - Runs command substitutions in `for` words and `case` patterns
+ * @param lastAppendedIndex - History tracking index
+ * @param io - The command's standard streams
+ * @returns Observable that emits the result of the last command that ran
+ *
+ * @example
+ * // for f in *.ts; do wc -l $f; done
+ * executeCompoundCommand$(parseCommandList("for f in *.ts; do wc -l $f; done")[0].pipeline[0], runList, substitute, 0, io)
+ */
+export function executeCompoundCommand$(
+  command: CompoundCommand,
+  runList: ListRunner,
+  substitute: CommandSubstituter,
+  lastAppendedIndex: number,
+  io: CommandIO
+): Observable<CommandResult> {
+  const run: BoundRunner = (list, historyIndex) => runList(list, historyIndex, io);
+
+  switch (command.type) {
+    case "group":
+      return run(command.body, lastAppendedIndex);
+    case "subshell":
+      return executeSubshell$(command.body, run, lastAppendedIndex);
+    case "if":
+      return executeIf$(command, run, lastAppendedIndex);
+    case "while":
+    case "until":
+      return executeLoop$(command, run, lastAppendedIndex);
+    case "for":
+      return executeFor$(command, run, substitute, lastAppendedIndex);
+    case "case":
+      return executeCase$(command, run, substitute, lastAppendedIndex);
+  }
+}
+
+/**
+ * Executes the break and continue builtins.
+ * Supports: break, break N, continue, continue N
+ *
+ * @param command - "break" or "continue"
+ * @param args - Command arguments (excluding the command itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the result, carrying the loop control for the enclosing loops
+ */
+export function executeLoopControl$(command: "break" | "continue", args: string[], io: CommandIO): Observable<CommandResult> {
+  const levels = args[0] === undefined ? 1 : Number(args[0]);
+
+  if (!Number.isInteger(levels) || levels < 1) {
+    return write$(io.stderr, `${command}: ${args[0]}: loop count out of range\n`).pipe(
+      switchMap(() => of<CommandResult>({ exitCode: 1 }))
+    );
+  }
+
+  if (loopDepth === 0) {
+    return write$(io.stderr, `${command}: only meaningful in a \`for', \`while', or \`until' loop\n`).pipe(
+      switchMap(() => of<CommandResult>({ exitCode: 0 }))
+    );
+  }
+
+  // "break 5" inside two loops leaves both
+  return of<CommandResult>({ exitCode: 0, loopControl: { action: command, levels: Math.min(levels, loopDepth) } });
+}
+
+/**
+ * Checks whether a result stops the rest of the enclosing list: exit,
+ * return, break, continue or Ctrl-C.
+ *
+ * @param result - Result of the command that just ran
+ * @returns True if no further commands of the list should run
+ */
+export function interruptsList(result: CommandResult): boolean {
+  return Boolean(result.shouldExit || result.functionReturn || result.loopControl || result.interrupted);
+}
+
+function executeSubshell$(body: CommandListEntry[], run: BoundRunner, lastAppendedIndex: number): Observable<CommandResult> {
+  return runInSubshell$(() => run(body, lastAppendedIndex)).pipe(
+    // exit leaves only the subshell
+    map(result => ({ ...result, shouldExit: false }))
+  );
+}
+
+function executeIf$(command: IfCommand, run: BoundRunner, lastAppendedIndex: number): Observable<CommandResult> {
+  const tryBranch$ = (index: number, historyIndex: number): Observable<CommandResult> => {
+    const branch = command.branches[index];
+
+    if (!branch) {
+      return command.elseBody ? run(command.elseBody, historyIndex) : of({ exitCode: 0, newLastAppendedIndex: historyIndex });
+    }
+
+    return run(branch.condition, historyIndex).pipe(
+      switchMap(result => {
+        const nextIndex = result.newLastAppendedIndex ?? historyIndex;
+
+        if (interruptsList(result)) {
+          return of(result);
+        }
+
+        return result.exitCode === 0 ? run(branch.body, nextIndex) : tryBranch$(index + 1, nextIndex);
+      })
+    );
+  };
+
+  return tryBranch$(0, lastAppendedIndex);
+}
+
+function executeLoop$(command: LoopCommand, run: BoundRunner, lastAppendedIndex: number): Observable<CommandResult> {
+  return loop$(historyIndex => run(command.condition, historyIndex).pipe(
+    switchMap(condition => {
+      if (interruptsList(condition)) {
+        return of(condition);
+      }
+
+      const proceed = (condition.exitCode === 0) === (command.type === "while");
+
+      return proceed ? run(command.body, condition.newLastAppendedIndex ?? historyIndex) : of(null);
+    })
+  ), lastAppendedIndex);
+}
+
+function executeFor$(
+  command: ForCommand,
+  run: BoundRunner,
+  substitute: CommandSubstituter,
+  lastAppendedIndex: number
+): Observable<CommandResult> {
+  const items$ = command.items === null ? of([...getPositionalParameters()]) : expandWords$(command.items, substitute);
+
+  return items$.pipe(
+    switchMap(items => {
+      let index = 0;
+
+      return loop$(historyIndex => {
+        if (index >= items.length) {
+          return of(null);
+        }
+
+        setVariable(command.variable, items[index++]);
+
+        return run(command.body, historyIndex);
+      }, lastAppendedIndex);
+    })
+  );
+}
+
+function executeCase$(
+  command: CaseCommand,
+  run: BoundRunner,
+  substitute: CommandSubstituter,
+  lastAppendedIndex: number
+): Observable<CommandResult> {
+  const none: CommandResult = { exitCode: 0, newLastAppendedIndex: lastAppendedIndex };
+
+  return expandWord$(command.subject, substitute).pipe(
+    switchMap(subject => {
+      const tryItem$ = (index: number): Observable<CommandResult> => {
+        const item = command.items[index];
+
+        if (!item) {
+          return of(none);
+        }
+
+        // Patterns expand one at a time, stopping at the first match
+        return from(item.patterns).pipe(
+          concatMap(pattern => expandPattern$(pattern, substitute)),
+          first(pattern => matchesPattern(subject, pattern), null),
+          switchMap(match => {
+            if (!match) {
+              return tryItem$(index + 1);
+            }
+
+            return item.body.length > 0 ? run(item.body, lastAppendedIndex) : of(none);
+          })
+        );
+      };
+
+      return tryItem$(0);
+    })
+  );
+}
+
+/**
+ * Runs loop iterations until one emits null (the loop is over) or a result
+ * that leaves the loop. Handles break and continue aimed at this loop and
+ * passes those aimed at outer loops on with one level fewer.
+ *
+ * Iterations are chained with expand rather than nested, so a long loop
+ * does not build a chain of subscriptions as deep as its iteration count.
+ *
+ * @param iteration$ - Runs one iteration: emits the body's result, or null when done
+ * @param lastAppendedIndex - History tracking index
+ * @returns Observable that emits the loop's result
+ */
+function loop$(
+  iteration$: (lastAppendedIndex: number) => Observable<CommandResult | null>,
+  lastAppendedIndex: number
+): Observable<CommandResult> {
+  const step$ = ({ exitCode, historyIndex }: LoopStep, context: SubshellContext | undefined): Observable<LoopStep> => withinSubshellContext$(
+    context,
+    () => iteration$(historyIndex)
+  ).pipe(
+    subscribeOn(asapScheduler),
+    map(result => {
+      if (result === null) {
+        return { exitCode, historyIndex, final: { exitCode, newLastAppendedIndex: historyIndex } };
+      }
+
+      const nextIndex = result.newLastAppendedIndex ?? historyIndex;
+      const control = result.loopControl;
+
+      if (!control && interruptsList(result)) {
+        return { exitCode, historyIndex, final: result };
+      }
+
+      if (control && control.levels > 1) {
+        return { exitCode, historyIndex, final: { ...result, loopControl: { ...control, levels: control.levels - 1 } } };
+      }
+
+      if (control?.action === "break") {
+        return { exitCode, historyIndex, final: { exitCode: result.exitCode, newLastAppendedIndex: nextIndex } };
+      }
+
+      return { exitCode: result.exitCode, historyIndex: nextIndex };
+    })
+  );
+
+  return defer(() => {
+    // Iterations start later, in the state of the background job the loop may be part of
+    const context = getActiveSubshellContext();
+    let running = true;
+    // Runs before the result reaches the next command, and on error or unsubscribe
+    const leave = () => {
+      if (running) {
+        running = false;
+        loopDepth--;
+      }
+    };
+
+    loopDepth++;
+
+    return of<LoopStep>({ exitCode: 0, historyIndex: lastAppendedIndex }).pipe(
+      expand(step => step.final ? EMPTY : step$(step, context)),
+      last(),
+      tap(leave),
+      finalize(leave),
+      map(step => step.final as CommandResult)
+    );
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Command I/O Module
+ *
+ * Describes a command's standard streams and any descriptors above 2
+ * opened by redirections, which job its processes belong to, and the
+ * subshell context it runs in, if any. Builtins read and write the streams
+ * directly, waiting for a full stream to drain before writing more
+ * (write$). External processes get
+ * the underlying file descriptor when a stream has one (the terminal or a
+ * redirected file), so their output never passes through the shell;
+ * otherwise their stdio is piped to and from the stream.
+ *
+ * Targets:
+ * - standardIO: The shell's own stdin, stdout and stderr (the terminal)
+ * - createOutputCapture: An in-memory buffer, used by command substitution
+ * - Redirected files and pipeline pipes, set up per command
+ */
+
+import { Observable, from } from "rxjs";
+import { concatMap, toArray, map } from "rxjs/operators";
+import { Readable, Writable } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import type { ChildProcess, StdioOptions } from "node:child_process";
+import type { Job } from "./jobs";
+import type { SubshellContext } from "./subshell";
+
+/**
+ * A descriptor above 2: its stream, and whether the command reads from it
+ * or writes to it (a pipe can be either).
+ */
+export interface ExtraDescriptor {
+  stream: Readable | Writable;
+  input: boolean;
+}
+
+export interface CommandIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+  // Descriptors 3 to 9, opened by redirections such as 3>file
+  fds?: Record<number, ExtraDescriptor>;
+  job?: Job;
+  // State of the background job or pipeline stage the command runs in
+  context?: SubshellContext;
+  // Processes started by the current pipeline stage
+  processes?: ChildProcess[];
+}
+
+export const standardIO: CommandIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr };
+
+// Lines handed to the stream per write by writeLines$
+const LINES_PER_WRITE = 1024;
+
+/**
+ * Writes text to a stream with backpressure: when the stream's buffer is
+ * full, emits only after it has drained. Completes without error when the
+ * reader has gone away, like a builtin ignoring a broken pipe.
+ *
+ * @param stream - Destination, e.g. io.stdout of a builtin
+ * @param text - Text to write
+ * @returns Observable that emits once the stream can take more data
+ */
+export function write$(stream: Writable, text: string): Observable<void> {
+  return new Observable<void>(subscriber => {
+    const done = () => {
+      subscriber.next();
+      subscriber.complete();
+    };
+
+    if (stream.destroyed || text === "" || stream.write(text)) {
+      done();
+
+      return;
+    }
+
+    stream.once("drain", done);
+    stream.once("close", done);
+
+    return () => {
+      stream.off("drain", done);
+      stream.off("close", done);
+    };
+  });
+}
+
+/**
+ * Writes lines (each ending in a newline) in batches, so large outputs
+ * such as a long history are produced only as fast as they are read.
+ *
+ * @param stream - Destination stream
+ * @param lines - Lines to write, newlines included
+ * @returns Observable that emits once everything has been written
+ */
+export function writeLines$(stream: Writable, lines: string[]): Observable<void> {
+  const batches: string[] = [];
+
+  for (let i = 0; i < lines.length; i += LINES_PER_WRITE) {
+    batches.push(lines.slice(i, i + LINES_PER_WRITE).join(""));
+  }
+
+  return from(batches).pipe(
+    concatMap(batch => write$(stream, batch)),
+    toArray(),
+    map(() => undefined)
+  );
+}
+
+/**
+ * Chooses the spawn stdio settings for a command's streams. Background jobs
+ * read from /dev/null instead of the terminal so they never compete with
+ * the prompt for input. Descriptors above 2 are passed at their own number.
+ *
+ * @param io - Command I/O configuration
+ * @returns File descriptors where the streams have one, "pipe" elsewhere
+ */
+export function spawnStdio(io: CommandIO): StdioOptions {
+  const stdin = io.job?.background && io.stdin === process.stdin ? "ignore" : descriptorOf(io.stdin) ?? "pipe";
+  const stdio: StdioOptions = [stdin, descriptorOf(io.stdout) ?? "pipe", descriptorOf(io.stderr) ?? "pipe"];
+
+  for (const [fd, { stream }] of extraDescriptors(io)) {
+    // Descriptors in between stay closed in the child
+    while (stdio.length < fd) {
+      stdio.push("ignore");
+    }
+
+    stdio[fd] = descriptorOf(stream) ?? "pipe";
+  }
+
+  return stdio;
+}
+
+/**
+ * Connects the piped stdio of a child spawned with spawnStdio to the
+ * command's streams. Streams passed as file descriptors need no forwarding.
+ *
+ * @param child - Spawned child process
+ * @param io - Command I/O configuration
+ * @returns Promise that resolves once the output on descriptors above 2 has
+ *   been forwarded, which can be after the child's close event
+ */
+export function connectStdio(child: ChildProcess, io: CommandIO): Promise<void> {
+  const { stdin, stdout, stderr } = child;
+
+  if (stdin) {
+    // The child may exit without reading all of its input
+    stdin.on("error", () => {});
+    io.stdin.pipe(stdin);
+    child.on("close", () => io.stdin.unpipe(stdin));
+  }
+
+  if (stdout) {
+    // Once nobody reads the output any more, the next write raises SIGPIPE as with a real pipe
+    const closeOutput = () => {
+      stdout.unpipe(io.stdout);
+      stdout.once("data", () => child.kill("SIGPIPE"));
+      stdout.resume();
+    };
+
+    // Several commands may share a stream, so never end it here
+    stdout.pipe(io.stdout, { end: false });
+    io.stdout.once("close", closeOutput);
+    child.on("close", () => io.stdout.off("close", closeOutput));
+  }
+
+  stderr?.pipe(io.stderr, { end: false });
+
+  const forwarded: Promise<void>[] = [];
+
+  for (const [fd, { stream, input }] of extraDescriptors(io)) {
+    const pipe = child.stdio[fd];
+
+    if (!pipe) {
+      continue;
+    }
+
+    if (input) {
+      (stream as Readable).pipe(pipe as Writable);
+    } else {
+      const output = pipe as Readable;
+
+      output.pipe(stream as Writable, { end: false });
+      forwarded.push(new Promise(resolve => {
+        output.once("end", resolve);
+        output.once("close", resolve);
+      }));
+    }
+  }
+
+  return Promise.all(forwarded).then(() => undefined);
+}
+
+function extraDescriptors(io: CommandIO): [number, ExtraDescriptor][] {
+  return Object.entries(io.fds ?? {}).map(([fd, descriptor]) => [Number(fd), descriptor]);
+}
+
+function descriptorOf(stream: Readable | Writable): number | undefined {
+  if (stream === process.stdin) {
+    return 0;
+  }
+
+  if (stream === process.stdout) {
+    return 1;
+  }
+
+  if (stream === process.stderr) {
+    return 2;
+  }
+
+  // File streams opened for redirections
+  const fd = (stream as { fd?: unknown }).fd;
+
+  return typeof fd === "number" ? fd : undefined;
+}
+
+/**
+ * Creates an output target that collects everything written to it.
+ *
+ * @returns The I/O configuration and a function reading what was written so far
+ *
+ * @example
+ * const capture = createOutputCapture();
+ * capture.io.stdout.write("hello\n");
+ * capture.read(); // "hello\n"
+ */
+export function createOutputCapture(): { io: CommandIO, read: () => string } {
+  // Decode incrementally so multi-byte characters split across chunks survive
+  const decoder = new StringDecoder("utf8");
+  let output = "";
+  const stdout = new Writable({
+    decodeStrings: false,
+    write(chunk, encoding, callback) {
+      output += typeof chunk === "string" ? chunk : decoder.write(chunk);
+      callback();
+    }
+  });
+
+  return { io: { ...standardIO, stdout }, read: () => output };
+}
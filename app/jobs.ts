@@ -0,0 +1,480 @@
+/**
+ * Job Control Module
+ *
+ * Tracks the processes started by each command line as jobs, so they can be
+ * run in the background, stopped with Ctrl-Z and resumed later.
+ *
+ * Job lifecycle:
+ * - Every and-or list runs as a job that owns its own execution subscription
+ * - Foreground jobs block the prompt until they finish or are stopped
+ * - Ctrl-C interrupts the foreground job, which then runs no more commands
+ * - Background jobs (trailing &) enter the job table immediately, and run
+ *   as subshells: the variables, directory and so on they change are their
+ *   own (see subshell.ts)
+ * - Finished background jobs are reported before the next prompt
+ *
+ * Commands supported:
+ * - jobs [-l|-p]: List jobs
+ * - fg [%job]: Resume a job in the foreground
+ * - bg [%job]: Resume a stopped job in the background
+ * - wait [%job|pid]...: Wait for background jobs to finish
+ *
+ * Process groups:
+ * Background jobs are spawned detached, so each process leads its own group
+ * and terminal signals never reach it. Foreground processes share the
+ * shell's group and receive Ctrl-C/Ctrl-Z from the terminal directly.
+ * Node cannot hand the terminal to another group, so signals for a detached
+ * job brought back with fg are forwarded by the shell instead.
+ *
+ * Limitation: a job stopped with Ctrl-Z and resumed with bg stays in the
+ * shell's group, since Node cannot move a running process to another group.
+ * Ctrl-C and Ctrl-Z typed for a later foreground job reach it as well, and
+ * kill or stop it too.
+ */
+
+import { Observable, AsyncSubject, Subject, of, merge, forkJoin, defer, asapScheduler } from "rxjs";
+import { map, take, tap, finalize, switchMap, observeOn } from "rxjs/operators";
+import type { ChildProcess } from "node:child_process";
+import type { CommandResult } from "./executor";
+import { createSubshellContext } from "./subshell";
+import type { SubshellContext } from "./subshell";
+import { isInteractive } from "./options";
+import { write$, writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+export type JobState = "Running" | "Stopped" | "Done";
+
+export interface Job {
+  id: number;
+  command: string;
+  background: boolean;
+  detached: boolean;
+  processes: ChildProcess[];
+  state: JobState;
+  exitCode: number;
+  // Set by Ctrl-C; the job runs no further commands
+  interrupted: boolean;
+  // State of a background job, kept apart from the shell's
+  context?: SubshellContext;
+  completion: AsyncSubject<CommandResult>;
+  stopped: Subject<CommandResult>;
+}
+
+// Exit status reported for a job stopped by SIGTSTP (128 + 20)
+const STOPPED_STATUS = 148;
+
+// Job table, ordered by job number
+const jobTable: Job[] = [];
+let foregroundJob: Job | null = null;
+let lastBackgroundPid: number | undefined;
+
+/**
+ * Creates a job for a command line. The job enters the job table only when
+ * it is started in the background or stopped.
+ *
+ * @param command - Command text shown by the jobs builtin
+ * @param background - Whether the job was started with a trailing &
+ * @returns The new job
+ */
+export function createJob(command: string, background: boolean): Job {
+  return {
+    id: 0,
+    command,
+    background,
+    detached: background,
+    processes: [],
+    state: "Running",
+    exitCode: 0,
+    interrupted: false,
+    context: background ? createSubshellContext() : undefined,
+    completion: new AsyncSubject<CommandResult>(),
+    stopped: new Subject<CommandResult>()
+  };
+}
+
+/**
+ * Records a spawned process as part of a job. A process killed by SIGINT
+ * interrupts its job, as Ctrl-C does.
+ *
+ * @param job - Owning job, if the command runs inside one
+ * @param child - Newly spawned process
+ */
+export function trackProcess(job: Job | undefined, child: ChildProcess): void {
+  if (!job) {
+    return;
+  }
+
+  job.processes.push(child);
+
+  if (job.background && child.pid !== undefined) {
+    lastBackgroundPid = child.pid;
+  }
+
+  // The process may exit before the shell sees its own SIGINT
+  child.on("exit", (code, signal) => {
+    if (signal === "SIGINT") {
+      job.interrupted = true;
+    }
+  });
+}
+
+/**
+ * Returns the process ID of the most recent background process, used for `$!`.
+ *
+ * @returns The PID, or undefined if nothing was started in the background
+ */
+export function getLastBackgroundPid(): number | undefined {
+  return lastBackgroundPid;
+}
+
+/**
+ * Returns the number of jobs in the job table, used for `\j` in prompts.
+ *
+ * @returns Running, stopped and unreported finished jobs
+ */
+export function getJobCount(): number {
+  return jobTable.length;
+}
+
+/**
+ * Starts a job's execution. The job keeps its own subscription, so stopping
+ * a foreground job returns control to the prompt without cancelling it.
+ *
+ * @param job - Job created by createJob
+ * @param execution$ - Observable that runs the job's commands
+ * @returns Observable that emits once the job finishes or, for foreground
+ *          jobs, is stopped. Background jobs emit status 0 right away, after
+ *          an interactive shell has printed their job number and processes.
+ */
+export function runJob$(job: Job, execution$: Observable<CommandResult>): Observable<CommandResult> {
+  return defer(() => {
+    let lastResult: CommandResult = { exitCode: 0 };
+
+    if (!job.background) {
+      foregroundJob = job;
+    }
+
+    // A background job finishes outside its context, so that commands waiting for it run in the shell's state
+    const jobExecution$ = job.background ? execution$.pipe(observeOn(asapScheduler)) : execution$;
+
+    jobExecution$.subscribe({
+      next: result => {
+        lastResult = result;
+      },
+      error: error => {
+        console.error(`Error: ${error.message}`);
+        finishJob(job, { exitCode: 1 });
+      },
+      complete: () => finishJob(job, lastResult)
+    });
+
+    if (job.background) {
+      const pids = job.processes.flatMap(child => child.pid === undefined ? [] : [child.pid]);
+
+      addToJobTable(job);
+
+      // Builtins run in the shell itself and have no process to report
+      if (isInteractive() && pids.length > 0) {
+        process.stderr.write(`[${job.id}] ${pids.join(" ")}\n`);
+      }
+
+      return of<CommandResult>({ exitCode: 0, newLastAppendedIndex: lastResult.newLastAppendedIndex });
+    }
+
+    return waitForeground$(job);
+  });
+}
+
+/**
+ * Stops the foreground job in response to SIGTSTP (Ctrl-Z) and returns
+ * control to the prompt. Does nothing when no job is in the foreground.
+ */
+export function stopForegroundJob(): void {
+  const job = foregroundJob;
+
+  if (!job || job.state !== "Running") {
+    return;
+  }
+
+  // Processes in the shell's group already got SIGTSTP; SIGSTOP covers the rest
+  signalJob(job, "SIGSTOP");
+  job.state = "Stopped";
+  addToJobTable(job);
+  process.stdout.write(`\n${formatJob(job)}\n`);
+  job.stopped.next({ exitCode: STOPPED_STATUS });
+}
+
+/**
+ * Interrupts the foreground job in response to SIGINT (Ctrl-C): the rest of
+ * its list and loops are skipped, as in bash. The signal is forwarded to a
+ * job that was started in the background and therefore lives outside the
+ * terminal's process group.
+ */
+export function interruptForegroundJob(): void {
+  if (!foregroundJob) {
+    return;
+  }
+
+  foregroundJob.interrupted = true;
+
+  if (foregroundJob.detached) {
+    signalJob(foregroundJob, "SIGINT");
+  }
+}
+
+/**
+ * Collects notifications for background jobs that finished since the last
+ * prompt and removes them from the job table.
+ *
+ * @returns Lines such as "[1]+  Done                    sleep 1", or ""
+ */
+export function reportFinishedJobs(): string {
+  const finished = jobTable.filter(job => job.state === "Done");
+
+  if (finished.length === 0) {
+    return "";
+  }
+
+  const report = finished.map(job => `${formatJob(job)}\n`).join("");
+
+  finished.forEach(removeFromJobTable);
+
+  return report;
+}
+
+/**
+ * Executes the jobs builtin.
+ * Supports: jobs, jobs -l (with PIDs), jobs -p (PIDs only)
+ *
+ * @param args - Command arguments (excluding 'jobs' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeJobsCommand$(args: string[], io: CommandIO): Observable<number> {
+  const lines = jobTable.map(job => {
+    if (args.includes("-p")) {
+      return job.processes.map(child => `${child.pid}\n`).join("");
+    }
+
+    const pids = args.includes("-l") ? ` ${job.processes.map(child => child.pid).join(" ")}` : "";
+
+    return `${formatJob(job, pids)}\n`;
+  });
+
+  return writeLines$(io.stdout, lines).pipe(map(() => 0));
+}
+
+/**
+ * Executes the fg builtin: continues a job and waits for it in the foreground.
+ * A job that has already finished is reported and removed instead.
+ *
+ * @param args - Command arguments (excluding 'fg' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the job's exit status
+ */
+export function executeFgCommand$(args: string[], io: CommandIO): Observable<number> {
+  const job = resolveJobSpec(args[0]);
+
+  if (!job) {
+    return write$(io.stderr, `fg: ${args[0] ?? "current"}: no such job\n`).pipe(map(() => 1));
+  }
+
+  // A job that finished before it was reported is reported now instead of resumed
+  if (job.state === "Done") {
+    const report = `${formatJob(job)}\n`;
+
+    removeFromJobTable(job);
+
+    return write$(io.stderr, "fg: job has terminated\n").pipe(
+      switchMap(() => write$(io.stdout, report)),
+      map(() => 1)
+    );
+  }
+
+  return write$(io.stdout, `${job.command}\n`).pipe(
+    switchMap(() => {
+      foregroundJob = job;
+      continueJob(job);
+
+      return waitForeground$(job);
+    }),
+    tap(() => {
+      if (job.state === "Done") {
+        removeFromJobTable(job);
+      }
+    }),
+    map(({ exitCode }) => exitCode)
+  );
+}
+
+/**
+ * Executes the bg builtin: continues stopped jobs in the background.
+ * A job stopped from the foreground keeps sharing the terminal's process
+ * group, so Ctrl-C and Ctrl-Z for later foreground jobs still reach it
+ * (see the module comment).
+ *
+ * @param args - Command arguments (excluding 'bg' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeBgCommand$(args: string[], io: CommandIO): Observable<number> {
+  const specs = args.length > 0 ? args : [undefined];
+  const lines: string[] = [];
+  const errors: string[] = [];
+
+  for (const spec of specs) {
+    const job = resolveJobSpec(spec);
+
+    if (!job) {
+      errors.push(`bg: ${spec ?? "current"}: no such job\n`);
+
+      continue;
+    }
+
+    if (job.state === "Done") {
+      errors.push("bg: job has terminated\n");
+      lines.push(`${formatJob(job)}\n`);
+      removeFromJobTable(job);
+
+      continue;
+    }
+
+    job.background = true;
+    continueJob(job);
+    lines.push(`[${job.id}]${jobMarker(job)} ${job.command} &\n`);
+  }
+
+  return writeLines$(io.stderr, errors).pipe(
+    switchMap(() => writeLines$(io.stdout, lines)),
+    map(() => errors.length > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Executes the wait builtin.
+ * Supports: wait (all background jobs), wait %job..., wait pid...
+ *
+ * @param args - Command arguments (excluding 'wait' itself)
+ * @returns Observable with the exit status of the last job waited for
+ */
+export function executeWaitCommand$(args: string[]): Observable<number> {
+  const targets = args.length === 0
+    ? jobTable.filter(job => job.state === "Running")
+    : args.map(arg => arg.startsWith("%") ? resolveJobSpec(arg) : findJobByPid(parseInt(arg, 10)));
+
+  if (targets.length === 0) {
+    return of(0);
+  }
+
+  // Unknown jobs count as status 127, like bash
+  return forkJoin(targets.map(job => job
+    ? job.completion.pipe(map(({ exitCode }) => exitCode), tap(() => removeFromJobTable(job)))
+    : of(127)
+  )).pipe(
+    map(statuses => statuses[statuses.length - 1])
+  );
+}
+
+function waitForeground$(job: Job): Observable<CommandResult> {
+  return merge(job.completion, job.stopped).pipe(
+    take(1),
+    finalize(() => {
+      if (foregroundJob === job) {
+        foregroundJob = null;
+      }
+    })
+  );
+}
+
+function finishJob(job: Job, result: CommandResult): void {
+  job.exitCode = result.exitCode;
+  job.state = "Done";
+
+  // Jobs finishing in the foreground are not reported
+  if (foregroundJob === job) {
+    removeFromJobTable(job);
+  }
+
+  job.completion.next(result);
+  job.completion.complete();
+}
+
+function continueJob(job: Job): void {
+  job.state = "Running";
+  signalJob(job, "SIGCONT");
+}
+
+function signalJob(job: Job, signal: NodeJS.Signals): void {
+  for (const child of job.processes) {
+    if (child.exitCode === null && child.signalCode === null) {
+      try {
+        child.kill(signal);
+      } catch {}
+    }
+  }
+}
+
+function addToJobTable(job: Job): void {
+  if (job.id !== 0) {
+    return;
+  }
+
+  job.id = jobTable.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+  jobTable.push(job);
+}
+
+function removeFromJobTable(job: Job): void {
+  const index = jobTable.indexOf(job);
+
+  if (index !== -1) {
+    jobTable.splice(index, 1);
+  }
+}
+
+/**
+ * Resolves a job specification: %n, %%, %+, %-, %prefix or a bare number.
+ * Without a spec, the current (most recent) job is used.
+ */
+function resolveJobSpec(spec: string | undefined): Job | undefined {
+  const current = jobTable[jobTable.length - 1];
+
+  if (spec === undefined || spec === "%" || spec === "%%" || spec === "%+") {
+    return current;
+  }
+
+  if (spec === "%-") {
+    return jobTable[jobTable.length - 2];
+  }
+
+  const body = spec.startsWith("%") ? spec.slice(1) : spec;
+
+  if (/^[0-9]+$/.test(body)) {
+    return jobTable.find(job => job.id === parseInt(body, 10));
+  }
+
+  return jobTable.find(job => job.command.startsWith(body));
+}
+
+function findJobByPid(pid: number): Job | undefined {
+  return jobTable.find(job => job.processes.some(child => child.pid === pid));
+}
+
+/**
+ * "+" marks the current job and "-" the previous one.
+ */
+function jobMarker(job: Job): string {
+  const index = jobTable.indexOf(job);
+
+  if (index === jobTable.length - 1) {
+    return "+";
+  }
+
+  return index === jobTable.length - 2 ? "-" : " ";
+}
+
+function formatJob(job: Job, pids = ""): string {
+  const state = job.state === "Done" && job.exitCode !== 0 ? `Exit ${job.exitCode}` : job.state;
+  const suffix = job.background && job.state === "Running" ? " &" : "";
+
+  return `[${job.id}]${jobMarker(job)}${pids}  ${state.padEnd(24)}${job.command}${suffix}`;
+}
@@ -2,100 +2,436 @@
  * Reactive Shell Main Module
  * 
  * Entry point for the reactive shell implementation. Orchestrates multiple RxJS streams:
- * - Input stream: Processes readline events
- * - Exit stream: Handles shell termination
- * - Command stream: Executes parsed commands
+ * - Input stream: Lines from readline, a script file or a -c string, joined
+ *   until they form complete commands (here-documents, compound commands,
+ *   continuation lines)
+ * - Command stream: Executes parsed command lists in order
+ * - Exit handling: Triggered by the exit builtin's result
+ * - Signal streams: Route Ctrl-C and Ctrl-Z to the foreground job
+ * - Line editing: emacs and vi keymaps in front of readline (see editor.ts),
+ *   suggestions from the history shown as the line is typed (see suggest.ts),
+ *   and syntax highlighting of the line (see highlight.ts)
+ * - History: Typed lines have their ! references expanded (echoing the
+ *   result) and are searched with Ctrl-R; finished commands are recorded in
+ *   the history database
  * 
  * Key reactive patterns:
  * - Event-driven architecture with fromEvent
  * - Stream composition with operators
  * - Asynchronous history management
  * - Non-blocking command execution
+ *
+ * Only a shell reading a terminal is interactive: it shows prompts, edits
+ * lines with readline, reports background jobs and starts by sourcing
+ * ~/.tsshrc (or the --rcfile file, or nothing with --norc). Scripts run without
+ * prompts and stop at the first syntax error. Commands read from stdin
+ * are recorded in the history, as HISTCONTROL and HISTIGNORE allow.
  */
 
 import { createInterface } from "node:readline";
-import { fromEvent, EMPTY } from "rxjs";
-import { map, filter, switchMap, tap, catchError, share } from "rxjs/operators";
-import { parseCommand } from "./parser";
-import { executeCommand$ } from "./executor";
-import { loadHistoryFromFile$, saveHistoryToFile$ } from "./history";
-import { setupCompletion } from "./completion";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { fromEvent, defer, of, concat, EMPTY } from "rxjs";
+import { map, filter, concatMap, switchMap, tap, catchError, share, takeUntil } from "rxjs/operators";
+import { parseCommandList, isAwaitingHereDocument, isIncomplete } from "./parser";
+import { executeCommandList$ } from "./executor";
+import { getBuiltinNames } from "./builtins";
+import type { CommandResult } from "./executor";
+import { getLastExitStatus, setLastExitStatus } from "./status";
+import {
+  loadHistoryFromFile$,
+  saveHistoryToFile$,
+  addHistoryEntry,
+  loadHistoryDatabase$,
+  recordCommand$,
+  isDirectoryCommand,
+  expandHistory,
+  HistoryExpansionError
+} from "./history";
+import { setupReverseSearch } from "./search";
+import { setupLineEditor } from "./editor";
+import { setupAutosuggestions, renderSuggestion } from "./suggest";
+import { setupHighlighting, refreshHighlighting, highlightLine } from "./highlight";
+import { setupCompletion, suggestCompletion } from "./completion";
+import type { CompletionContext } from "./completion";
+import { stopForegroundJob, interruptForegroundJob, reportFinishedJobs } from "./jobs";
+import { parseInvocation, readScript$, sourceFile$, ScriptError } from "./script";
+import type { Invocation } from "./script";
+import { SHELL_NAME, setScriptName, setPositionalParameters } from "./parameters";
+import { getOption, setOption, setInteractive } from "./options";
+import { getVariable } from "./variables";
+import { standardIO } from "./io";
+import { updatePrompt, runPromptCommand$, refreshGitStatus$ } from "./prompt";
 
 // Global state
 let commandHistory: string[] = [];
 let lastAppendedIndex = 0;
+let inputClosed = false;
+// Lines of a command that is not complete yet, e.g. an open if or here-document
+let pendingInput = "";
+const invocation = readInvocation();
+const readsStdin = invocation.command === undefined && invocation.scriptPath === undefined;
+const interactive = readsStdin && Boolean(process.stdin.isTTY);
 
-// Create readline interface
-const rl = createInterface({
+const completionContext: CompletionContext = {
+  builtinNames: getBuiltinNames,
+  runList: list => executeCommandList$(list, commandHistory, lastAppendedIndex),
+  formatLine: highlightLine
+};
+const complete = setupCompletion(completionContext);
+
+// Create readline interface; scripts and -c strings leave stdin to their commands
+const rl = readsStdin ? createInterface({
   input: process.stdin,
-  output: process.stdout,
-  completer: setupCompletion()
+  output: interactive ? process.stdout : undefined,
+  // Once a completion is inserted, the new line is highlighted and its suggestion drawn
+  completer: interactive ? (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
+    complete(line, (error, result) => {
+      callback(error, result);
+
+      if (result[0].length > 0) {
+        refreshHighlighting();
+        renderSuggestion();
+      }
+    });
+  } : undefined
+}) : null;
+
+rl?.on("close", () => {
+  inputClosed = true;
 });
 
-// Input stream from readline
-const input$ = fromEvent(rl, "line").pipe(
-  map((line: unknown) => (line as string).trim()),
-  filter(line => line.length > 0),
-  tap(line => commandHistory.push(line)),
-  share()
-);
+if (rl && interactive) {
+  setupReverseSearch(rl, process.stdin, () => commandHistory, command => isDirectoryCommand(command, process.cwd()));
+  setupLineEditor(rl, process.stdin);
+  setupHighlighting(rl, process.stdin, () => pendingInput !== "");
+  setupAutosuggestions(rl, process.stdin, () => commandHistory, line => suggestCompletion(line, completionContext));
+}
 
-// Exit command stream
-const exit$ = input$.pipe(
-  filter(line => line.startsWith("exit")),
-  map(line => parseCommand(line)[1] ? parseInt(parseCommand(line)[1], 10) : 0),
-  tap(exitCode => {
-    if (process.env.HISTFILE) {
-      saveHistoryToFile$(process.env.HISTFILE, commandHistory, lastAppendedIndex).subscribe({
-        complete: () => process.exit(exitCode)
-      });
-    } else {
-      process.exit(exitCode);
+// Line stream from readline (completing on EOF or Ctrl-D), or the script's lines
+const line$ = rl ? fromEvent(rl, "line").pipe(
+  takeUntil(fromEvent(rl, "close")),
+  map((line: unknown) => line as string),
+  concatMap(line => expandHistoryReferences(line))
+) : readScript$(invocation);
+
+// Input stream: one item per command line, here-document lines included
+const input$ = concat(
+  line$.pipe(concatMap(line => collectInput(line))),
+  // Input ending inside a command still runs what was read, usually as a syntax error
+  defer(() => {
+    if (!pendingInput) {
+      return EMPTY;
     }
+
+    if (isAwaitingHereDocument(pendingInput)) {
+      console.error("warning: here-document delimited by end-of-file");
+    }
+
+    return of(pendingInput);
   })
+).pipe(
+  tap(line => {
+    // An empty line just asks for a fresh prompt
+    if (line.length === 0) {
+      showPrompt();
+    }
+  }),
+  filter(line => line.length > 0),
+  share()
 );
 
-// Regular command stream
+// Command stream: lines run one after another, like a script
 const command$ = input$.pipe(
-  filter(line => !line.startsWith("exit")),
-  map(line => parseCommand(line)),
-  switchMap(parts => executeCommand$(parts, commandHistory, lastAppendedIndex)),
+  tap(() => releaseTerminal()),
+  concatMap(line => runLine$(line)),
   tap(result => {
+    setLastExitStatus(result.exitCode);
+
     if (result.newLastAppendedIndex !== undefined) {
       lastAppendedIndex = result.newLastAppendedIndex;
     }
-    // Prompt after command completes
-    setTimeout(() => rl.prompt(), 0);
-  }),
-  catchError(error => {
-    console.error(`Error: ${error.message}`);
-    setTimeout(() => rl.prompt(), 0);
-    return EMPTY;
+
+    if (result.shouldExit) {
+      exitShell(result.exitCode);
+
+      return;
+    }
+
+    // Like bash, finish the "^C" line when Ctrl-C killed or interrupted the foreground job
+    if (interactive && (result.exitCode === 130 || result.interrupted)) {
+      process.stdout.write("\n");
+    }
+    // Prompt after command completes, unless input has already ended
+    setTimeout(() => {
+      if (!inputClosed) {
+        showPrompt();
+      }
+    }, 0);
   })
 );
 
+// Signal streams: Ctrl-Z and Ctrl-C reach the shell while a foreground job runs
+const stop$ = fromEvent(process, "SIGTSTP").pipe(tap(() => stopForegroundJob()));
+const interrupt$ = fromEvent(process, "SIGINT").pipe(tap(() => interruptForegroundJob()));
+
+// Output piped into a reader that went away ends the shell, as SIGPIPE would (128 + 13)
+process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+  if (error.code === "EPIPE") {
+    process.exit(141);
+  }
+});
+
+// At the prompt readline sees the keys instead: Ctrl-Z is ignored, Ctrl-C discards the line
+rl?.on("SIGTSTP", () => {});
+rl?.on("SIGINT", () => {
+  rl.write(null, { ctrl: true, name: "e" });
+  rl.write(null, { ctrl: true, name: "u" });
+  pendingInput = "";
+  process.stdout.write("^C\n");
+  showPrompt();
+});
+
+// Reads the shell's arguments, exiting on invalid ones
+function readInvocation(): Invocation {
+  try {
+    return parseInvocation(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${SHELL_NAME}: ${(error as Error).message}`);
+
+    return process.exit(2);
+  }
+}
+
+// Runs a command line; lines read from stdin are recorded in the history, just
+// before they run, and in the history database
+function runLine$(line: string) {
+  const cwd = process.cwd();
+  const startedAt = Date.now();
+
+  return defer(() => {
+    // Readline reads ahead, so the line is recorded only now, after the lines before it ran
+    if (readsStdin) {
+      lastAppendedIndex = addHistoryEntry(commandHistory, line, lastAppendedIndex);
+    }
+
+    return executeCommandList$(parseCommandList(line), commandHistory, lastAppendedIndex);
+  }).pipe(
+    catchError(error => {
+      if (error instanceof SyntaxError) {
+        console.error(error.message);
+
+        // A script cannot go on after a syntax error
+        return of<CommandResult>({ exitCode: 2, shouldExit: !interactive });
+      }
+
+      console.error(`Error: ${error.message}`);
+
+      return of<CommandResult>({ exitCode: 1 });
+    }),
+    concatMap(result => readsStdin
+      ? recordCommand$(line, cwd, startedAt, result.exitCode).pipe(map(() => result))
+      : of(result))
+  );
+}
+
+// Appends a line to the command being read; emits the command once it is complete
+function collectInput(line: string) {
+  // Later lines keep their whitespace, which matters in here-documents; a
+  // leading blank is kept for HISTCONTROL=ignorespace
+  const input = pendingInput ? `${pendingInput}\n${line}` : line.trimEnd();
+
+  if (input && isIncomplete(input)) {
+    pendingInput = input;
+
+    if (interactive) {
+      rl?.setPrompt(updatePrompt("continuation"));
+      rl?.prompt();
+    }
+
+    return EMPTY;
+  }
+
+  pendingInput = "";
+
+  return of(input);
+}
+
+// Expands ! references in a typed line and echoes the result, like bash; a failed reference drops the line
+function expandHistoryReferences(line: string) {
+  if (!interactive || !getOption("histexpand") || !/[!^]/.test(line)) {
+    return of(line);
+  }
+
+  try {
+    const expanded = expandHistory(line, commandHistory);
+
+    if (expanded !== line) {
+      process.stdout.write(`${expanded}\n`);
+      replaceRecalledLine(line, expanded);
+    }
+
+    return of(expanded);
+  } catch (error) {
+    if (!(error instanceof HistoryExpansionError)) {
+      throw error;
+    }
+
+    console.error(error.message);
+
+    if (pendingInput) {
+      rl?.prompt();
+    } else {
+      showPrompt();
+    }
+
+    return EMPTY;
+  }
+}
+
+// Makes the up arrow recall the expanded line rather than the references
+function replaceRecalledLine(line: string, expanded: string) {
+  const recalled = (rl as unknown as { history?: string[] } | null)?.history;
+
+  if (recalled?.[0] === line) {
+    recalled[0] = expanded;
+  }
+}
+
+// Hands the terminal to a foreground command so Ctrl-C/Ctrl-Z generate signals
+function releaseTerminal() {
+  if (interactive) {
+    rl?.pause();
+    process.stdin.setRawMode(false);
+  }
+}
+
+// Takes the terminal back for line editing
+function reclaimTerminal() {
+  if (interactive) {
+    process.stdin.setRawMode(true);
+  }
+}
+
+// Runs PROMPT_COMMAND, refreshes the git status, reports finished background jobs, then shows PS1
+function showPrompt() {
+  if (!interactive) {
+    return;
+  }
+
+  // PROMPT_COMMAND runs like a typed command, with the terminal released
+  releaseTerminal();
+  runPromptCommand$(list => executeCommandList$(list, commandHistory, lastAppendedIndex)).pipe(
+    switchMap(() => refreshGitStatus$())
+  ).subscribe(() => {
+    reclaimTerminal();
+    process.stdout.write(reportFinishedJobs());
+    rl?.setPrompt(updatePrompt("primary"));
+    rl?.prompt();
+  });
+}
+
+// Saves pending history and terminates the process
+function exitShell(exitCode: number) {
+  const historyFile = getVariable("HISTFILE");
+
+  if (readsStdin && historyFile) {
+    saveHistoryToFile$(historyFile, commandHistory, lastAppendedIndex).subscribe({
+      complete: () => process.exit(exitCode)
+    });
+  } else {
+    process.exit(exitCode);
+  }
+}
+
 // Initialize shell
 function initShell() {
-  if (process.env.HISTFILE) {
-    loadHistoryFromFile$(process.env.HISTFILE, commandHistory).subscribe(
-      index => {
-        lastAppendedIndex = index;
-        startShell();
-      }
-    );
+  setScriptName(invocation.name);
+  setPositionalParameters(invocation.parameters);
+  setInteractive(interactive);
+  setOption("expand_aliases", interactive);
+  setOption("histexpand", interactive);
+  setOption("emacs", interactive);
+
+  if (interactive && !invocation.noRc) {
+    loadRcFile();
   } else {
+    loadHistory();
+  }
+}
+
+// Sources the rc file, which may also set HISTFILE
+function loadRcFile() {
+  const rcFile = invocation.rcFile ?? path.join(homedir(), ".tsshrc");
+
+  // A missing ~/.tsshrc is fine, a missing --rcfile is reported
+  if (!invocation.rcFile && !existsSync(rcFile)) {
+    loadHistory();
+
+    return;
+  }
+
+  // Commands in the rc file get the terminal like any other command
+  releaseTerminal();
+  sourceFile$(
+    rcFile,
+    (list, historyIndex) => executeCommandList$(list, commandHistory, historyIndex),
+    lastAppendedIndex,
+    standardIO
+  ).subscribe({
+    next: result => {
+      setLastExitStatus(result.exitCode);
+
+      if (result.shouldExit) {
+        exitShell(result.exitCode);
+      }
+    },
+    // The shell still starts after an rc file that fails
+    error: error => {
+      console.error(`${SHELL_NAME}: ${error.message}`);
+      loadHistory();
+    },
+    complete: () => loadHistory()
+  });
+}
+
+// Loads HISTFILE and the history database, then starts reading commands
+function loadHistory() {
+  if (!readsStdin) {
     startShell();
+
+    return;
   }
+
+  const historyFile = getVariable("HISTFILE");
+  const file$ = historyFile ? loadHistoryFromFile$(historyFile, commandHistory) : of(lastAppendedIndex);
+
+  file$.pipe(
+    concatMap(index => loadHistoryDatabase$().pipe(map(() => index)))
+  ).subscribe(index => {
+    lastAppendedIndex = index;
+    startShell();
+  });
 }
 
 function startShell() {
-  // Subscribe to streams
-  exit$.subscribe();
-  command$.subscribe();
+  // Subscribe to streams; queued commands finish before EOF exits the shell
+  command$.subscribe({
+    error: error => {
+      // Only a script that cannot be read ends up here
+      console.error(`${SHELL_NAME}: ${error.message}`);
+      process.exit(error instanceof ScriptError ? 127 : 1);
+    },
+    complete: () => exitShell(getLastExitStatus())
+  });
+  
+  if (interactive) {
+    stop$.subscribe();
+    interrupt$.subscribe();
+  }
   
-  // Set prompt
-  rl.setPrompt("$ ");
-  rl.prompt();
+  showPrompt();
 }
 
 // Start the reactive shell
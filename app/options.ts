@@ -0,0 +1,225 @@
+/**
+ * Shell Options Module
+ *
+ * On/off switches that change how the shell behaves, plus the shopt and
+ * set builtins.
+ *
+ * Options (shopt):
+ * - nullglob: Patterns that match nothing expand to nothing
+ * - failglob: Patterns that match nothing are an error
+ * - dotglob: Wildcards also match names starting with "."
+ * - globstar: "**" matches any number of directories
+ * - expand_aliases: Expand aliases (on in interactive shells)
+ *
+ * Options (set -o):
+ * - pipefail: A pipeline's status is that of its last failing command
+ * - histexpand: Expand ! history references (on in interactive shells)
+ * - emacs, vi: Line editing mode (emacs in interactive shells); turning one
+ *   on turns the other off (see editor.ts)
+ *
+ * Whether the shell is interactive is kept here too. It is fixed at startup
+ * and cannot be changed with shopt or set.
+ *
+ * Commands supported:
+ * - shopt: List all options
+ * - shopt NAME...: Show options, fail if any is off
+ * - shopt -s NAME...: Enable options
+ * - shopt -u NAME...: Disable options
+ * - shopt -q NAME...: Like shopt NAME, without output
+ * - set -o / set +o: List set options, as a table or as commands
+ * - set -o NAME / set +o NAME: Enable / disable a set option
+ * - set -- ARG... / set ARG...: Replace the positional parameters ("set --"
+ *   alone clears them)
+ * Single-letter options such as -e and -u are not supported, and are
+ * rejected as such rather than ignored.
+ */
+
+import { Observable, of } from "rxjs";
+import { map, concatMap } from "rxjs/operators";
+import { writeLines$ } from "./io";
+import { setPositionalParameters } from "./parameters";
+import type { CommandIO } from "./io";
+
+const shellOptions = new Map<string, boolean>([
+  ["dotglob", false],
+  ["expand_aliases", false],
+  ["failglob", false],
+  ["globstar", false],
+  ["nullglob", false]
+]);
+
+const setOptions = new Map<string, boolean>([
+  ["emacs", false],
+  ["histexpand", false],
+  ["pipefail", false],
+  ["vi", false]
+]);
+
+// Set options that pick the line editing mode, of which one at most is on
+const EDITING_MODES = ["emacs", "vi"];
+
+// Whether the shell reads its commands from a terminal
+let interactiveShell = false;
+
+/**
+ * Reads a shell option.
+ *
+ * @param name - Option name
+ * @returns True if the option is enabled
+ */
+export function getOption(name: string): boolean {
+  return shellOptions.get(name) ?? setOptions.get(name) ?? false;
+}
+
+/**
+ * Lists the names of one kind of option, for completion.
+ *
+ * @param kind - "shopt" for shopt options, "set" for set -o options
+ * @returns Option names in sorted order
+ */
+export function getOptionNames(kind: "shopt" | "set"): string[] {
+  return [...(kind === "shopt" ? shellOptions : setOptions).keys()].sort();
+}
+
+/**
+ * Enables or disables a shell option.
+ *
+ * @param name - Option name
+ * @param enabled - New state
+ */
+export function setOption(name: string, enabled: boolean): void {
+  if (enabled && EDITING_MODES.includes(name)) {
+    EDITING_MODES.forEach(mode => setOptions.set(mode, false));
+  }
+
+  (setOptions.has(name) ? setOptions : shellOptions).set(name, enabled);
+}
+
+/**
+ * Records whether the shell is interactive, once it has been started.
+ *
+ * @param interactive - True if the shell reads its commands from a terminal
+ */
+export function setInteractive(interactive: boolean): void {
+  interactiveShell = interactive;
+}
+
+/**
+ * Tells whether the shell is interactive, for commands that behave
+ * differently in scripts.
+ *
+ * @returns True if the shell reads its commands from a terminal
+ */
+export function isInteractive(): boolean {
+  return interactiveShell;
+}
+
+/**
+ * Copies the state of every option, so that a subshell's changes can be undone.
+ *
+ * @returns A snapshot for restoreOptions
+ */
+export function snapshotOptions(): Map<string, boolean> {
+  return new Map([...shellOptions, ...setOptions]);
+}
+
+/**
+ * Puts back the options as they were when a snapshot was taken.
+ *
+ * @param snapshot - Snapshot from snapshotOptions
+ */
+export function restoreOptions(snapshot: Map<string, boolean>): void {
+  snapshot.forEach((enabled, name) => (setOptions.has(name) ? setOptions : shellOptions).set(name, enabled));
+}
+
+/**
+ * Executes the shopt builtin.
+ * Supports: shopt, shopt NAME..., shopt -s NAME..., shopt -u NAME..., shopt -q NAME...
+ *
+ * @param args - Command arguments (excluding 'shopt' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeShoptCommand$(args: string[], io: CommandIO): Observable<number> {
+  const flags = args.filter(arg => arg.startsWith("-"));
+  const names = args.filter(arg => !arg.startsWith("-"));
+  const quiet = flags.includes("-q");
+  const unknown = names.filter(name => !shellOptions.has(name));
+
+  if (unknown.length > 0) {
+    const errors = unknown.map(name => `shopt: ${name}: invalid shell option name\n`);
+
+    return writeLines$(io.stderr, errors).pipe(map(() => 1));
+  }
+
+  if (flags.includes("-s") || flags.includes("-u")) {
+    for (const name of names) {
+      setOption(name, flags.includes("-s"));
+    }
+
+    return of(0);
+  }
+
+  const listed = names.length > 0 ? names : [...shellOptions.keys()].sort();
+  const lines = quiet ? [] : listed.map(name => `${name.padEnd(15)}\t${getOption(name) ? "on" : "off"}\n`);
+
+  return writeLines$(io.stdout, lines).pipe(map(() => names.every(name => getOption(name)) ? 0 : 1));
+}
+
+/**
+ * Executes the set builtin.
+ * Supports: set -o, set +o, set -o NAME..., set +o NAME..., set -- ARG...
+ *
+ * @param args - Command arguments (excluding 'set' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ *
+ * @example
+ * executeSetCommand$(["-o", "pipefail", "--", "a", "b"], io)   // $1 is a, $2 is b
+ */
+export function executeSetCommand$(args: string[], io: CommandIO): Observable<number> {
+  const lines: string[] = [];
+  const errors: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const name = args[i + 1];
+
+    // The arguments after -- or the first non-option are the new positional parameters
+    if (flag === "--" || !/^[-+]./.test(flag)) {
+      setPositionalParameters(args.slice(flag === "--" ? i + 1 : i));
+
+      break;
+    }
+
+    if (flag !== "-o" && flag !== "+o") {
+      errors.push(`set: ${flag}: option not supported (only -o NAME, +o NAME and -- are)\n`);
+
+      continue;
+    }
+
+    if (name === undefined) {
+      // "set -o" shows a table, "set +o" commands that recreate the settings
+      lines.push(...[...setOptions.keys()].sort().map(option => flag === "-o"
+        ? `${option.padEnd(15)}\t${getOption(option) ? "on" : "off"}\n`
+        : `set ${getOption(option) ? "-o" : "+o"} ${option}\n`));
+
+      continue;
+    }
+
+    i++;
+
+    if (!setOptions.has(name)) {
+      errors.push(`set: ${name}: invalid option name\n`);
+
+      continue;
+    }
+
+    setOption(name, flag === "-o");
+  }
+
+  return writeLines$(io.stderr, errors).pipe(
+    concatMap(() => writeLines$(io.stdout, lines)),
+    map(() => errors.length > 0 ? 1 : 0)
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Positional Parameters Module
+ *
+ * Holds the shell's name and arguments, as set from the command line when
+ * running a script or a `-c` command string.
+ *
+ * Parameters:
+ * - $0: Name of the shell or script
+ * - $1 ... $n, ${10}...: Arguments
+ * - $#: Number of arguments
+ * - $@, $*: All arguments ("$@" keeps them as separate words)
+ */
+
+// Name reported as $0 when no script is running
+export const SHELL_NAME = "tssh";
+
+let scriptName = SHELL_NAME;
+let positionalParameters: string[] = [];
+
+/**
+ * Returns the name of the shell or of the running script.
+ *
+ * @returns The value of `$0`
+ */
+export function getScriptName(): string {
+  return scriptName;
+}
+
+/**
+ * Sets the name reported as `$0`.
+ *
+ * @param name - Script path, or the name given after `-c command`
+ */
+export function setScriptName(name: string): void {
+  scriptName = name;
+}
+
+/**
+ * Returns the positional parameters.
+ *
+ * @returns The values of `$1` to `$n`, in order
+ */
+export function getPositionalParameters(): string[] {
+  return positionalParameters;
+}
+
+/**
+ * Replaces the positional parameters.
+ *
+ * @param parameters - New values of `$1` to `$n`
+ */
+export function setPositionalParameters(parameters: string[]): void {
+  positionalParameters = parameters;
+}
@@ -1,9 +1,260 @@
 /**
  * Command Parser Module
  * 
- * This module handles parsing of shell command lines, including proper handling
+ * This module turns shell input into a syntax tree, including proper handling
  * of quotes, escape sequences, and special characters.
+ *
+ * Grammar (a subset of the POSIX shell grammar):
+ *   list      := and_or ((";" | "&" | newline) and_or)* [";" | "&"]
+ *   and_or    := pipeline (("&&" | "||") newline* pipeline)*
+ *   pipeline  := ["!"] command ("|" newline* command)*
+ *   command   := simple_command | compound_command redirection* | function
+ *   simple    := (NAME=word | NAME=( word* ) | word | redirection)+
+ *   compound  := if | while | until | for | case | "{" list "}" | "(" list ")"
+ *   function  := NAME "(" ")" newline* compound_command redirection*
+ *              | "function" NAME ["(" ")"] newline* compound_command redirection*
+ *
+ * Reserved words (if then elif else fi while until do done for in case esac
+ * function { } !) are recognised only unquoted and where the grammar expects them,
+ * so `echo if` prints "if".
+ *
+ * Expansions kept intact as part of a word:
+ * - `${...}`: Parameter expansion
+ * - `$(...)` and backticks: Command substitution, possibly nested
+ * 
+ * Command lists:
+ * - `a && b`: Run b only if a succeeds
+ * - `a || b`: Run b only if a fails
+ * - `a ; b` or a newline: Run b after a regardless of status
+ * - `a & b`: Start a in the background, then run b
+ * - `! a`: Negate the status of a pipeline
+ *
+ * Compound commands:
+ * - `if a; then b; elif c; then d; else e; fi`
+ * - `while a; do b; done`, `until a; do b; done`
+ * - `for NAME in word...; do b; done`, or `for NAME; do b; done` over "$@"
+ * - `case word in pattern|pattern) list ;; esac`
+ * - `{ list; }`: Group commands, e.g. to redirect them together
+ * - `( list )`: Run commands as a subshell
+ *
+ * Function definitions:
+ * - `name() { list; }`, `function name { list; }`: Define a function whose
+ *   body is any compound command; redirections after it apply on each call
+ *
+ * Pipelines and redirections:
+ * - `a | b`: Connect the stdout of a to the stdin of b
+ * - `<`, `>`, `>>`, `>|`, `<>`, optionally prefixed by a descriptor number (`2>`)
+ * - `N>&M`, `N<&M`: Duplicate descriptor M onto N (`2>&1`), or close N with `-`
+ * - `&>`, `&>>`: Redirect stdout and stderr together
+ * - `<<DELIM`, `<<-DELIM`: Here-document, read from the lines after the command's line
+ * - `<<<word`: Here-string
+ *
+ * Aliases:
+ * - The first word of a simple command is replaced by its alias' value,
+ *   which is then read as input (see aliases.ts for the rules)
+ *
+ * Comments and continuation lines:
+ * - `# text`: An unquoted `#` starting a word begins a comment to end of line
+ * - A backslash before a newline joins the two lines
+ *
+ * Input ending inside a compound command, a quote or a here-document, or
+ * right after `|`, `&&`, `||` or a backslash, is incomplete: isIncomplete
+ * tells the caller to read another line before running it.
+ *
+ * tokenizeLine splits a line into the same tokens without parsing it, for
+ * highlighting the line while it is typed.
+ */
+
+import { findExpandableAlias } from "./aliases";
+
+/**
+ * Operators that join the pipelines of a command list.
+ */
+export type ListOperator = "&&" | "||" | ";" | "&";
+
+/**
+ * A pipeline of a command list together with the operator that connects
+ * it to the previous pipeline (null for the first one). `background` is set
+ * when the pipeline is terminated by `&`, `negated` when it starts with `!`.
+ * `command` is the pipeline's source text, as shown by the jobs builtin.
+ */
+export interface CommandListEntry {
+  command: string;
+  operator: ListOperator | null;
+  background: boolean;
+  negated: boolean;
+  pipeline: Command[];
+}
+
+export type RedirectionOperator =
+  "<" | ">" | ">>" | ">|" | "<>" | "<&" | ">&" | "&>" | "&>>" | "<<" | "<<-" | "<<<";
+
+/**
+ * A redirection of descriptor `fd`. The target is a file name, for `>&` and
+ * `<&` a descriptor number or "-", for here-documents the delimiter word and
+ * for here-strings the word itself. `body` holds the text a here-document
+ * or here-string feeds to the command.
+ */
+export interface Redirection {
+  fd: number;
+  operator: RedirectionOperator;
+  target: string;
+  body?: string;
+}
+
+/**
+ * A simple command: words and redirections. Words and redirection targets
+ * stay raw (quotes in place) until the command is expanded right before it
+ * runs. `arrays` holds its NAME=(word...) assignments.
+ */
+export interface SimpleCommand {
+  type: "simple";
+  words: string[];
+  redirections: Redirection[];
+  arrays?: { name: string, items: string[] }[];
+}
+
+/**
+ * `{ list; }` and `( list )`.
+ */
+export interface GroupCommand {
+  type: "group" | "subshell";
+  body: CommandListEntry[];
+  redirections: Redirection[];
+}
+
+/**
+ * `if`, with one branch per `if`/`elif` condition.
+ */
+export interface IfCommand {
+  type: "if";
+  branches: { condition: CommandListEntry[], body: CommandListEntry[] }[];
+  elseBody: CommandListEntry[] | null;
+  redirections: Redirection[];
+}
+
+/**
+ * `while` and `until` loops.
+ */
+export interface LoopCommand {
+  type: "while" | "until";
+  condition: CommandListEntry[];
+  body: CommandListEntry[];
+  redirections: Redirection[];
+}
+
+/**
+ * `for` loop. Without `in`, items is null and the loop runs over "$@".
+ */
+export interface ForCommand {
+  type: "for";
+  variable: string;
+  items: string[] | null;
+  body: CommandListEntry[];
+  redirections: Redirection[];
+}
+
+/**
+ * `case`, with raw (unexpanded) subject and patterns.
+ */
+export interface CaseCommand {
+  type: "case";
+  subject: string;
+  items: { patterns: string[], body: CommandListEntry[] }[];
+  redirections: Redirection[];
+}
+
+export type CompoundCommand = GroupCommand | IfCommand | LoopCommand | ForCommand | CaseCommand;
+
+/**
+ * A function definition. `text` is the source of the body, as printed by
+ * the type builtin.
+ */
+export interface FunctionDefinition {
+  type: "function";
+  name: string;
+  body: CompoundCommand;
+  text: string;
+  redirections: Redirection[];
+}
+
+/**
+ * One stage of a pipeline.
  */
+export type Command = SimpleCommand | CompoundCommand | FunctionDefinition;
+
+/**
+ * Raised when the input ends in the middle of a command, so that more input
+ * could still complete it.
+ */
+class UnexpectedEndError extends SyntaxError {
+  constructor(message = "syntax error: unexpected end of file") {
+    super(message);
+    this.name = "UnexpectedEndError";
+  }
+}
+
+interface Token {
+  type: "word" | "operator" | "newline" | "end";
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A token of a line as tokenizeLine finds it: its source text (quotes
+ * kept), where it is, and whether it ends inside an open quote or
+ * expansion.
+ */
+export interface LineToken {
+  type: "word" | "operator" | "newline" | "comment";
+  text: string;
+  start: number;
+  end: number;
+  unterminated: boolean;
+}
+
+interface ParserState {
+  input: string;
+  position: number;
+  // Token peeked at but not consumed yet
+  lookahead: Token | null;
+  // End of the last consumed token
+  lastEnd: number;
+  // Here-documents whose bodies start after the next newline
+  pendingHereDocuments: Redirection[];
+  openHereDocument: boolean;
+  trailingBackslash: boolean;
+  // Aliases whose values are being read, and where each value ends
+  activeAliases: { name: string, end: number }[];
+  // Start of the word after an alias value ending in a blank, or -1
+  aliasNextWordAt: number;
+}
+
+// Longest operators first, so ">>" is never read as two ">"
+const OPERATORS = [
+  "<<<", "<<-", "&>>",
+  "&&", "||", ";;", "&>", ">>", ">|", ">&", "<<", "<>", "<&",
+  ">", "<", "|", "&", ";", "(", ")"
+];
+const REDIRECTION_PATTERN = /^([0-9]*)(<<<|<<-|<<|<>|<&|<|>>|>\||>&|>|&>>|&>)$/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+// Function names may also contain the "-", "." and ":" common in helper names
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.:-]*$/;
+
+// Reserved words that close a construct; they cannot start a command
+const CLOSING_WORDS = ["then", "elif", "else", "fi", "do", "done", "esac", "}"];
+const RESERVED_WORDS = [...CLOSING_WORDS, "if", "while", "until", "for", "case", "{", "!", "function", "in"];
+
+const COMPOUND_PARSERS: Record<string, (state: ParserState) => CompoundCommand> = {
+  "if": parseIf,
+  "while": parseLoop,
+  "until": parseLoop,
+  "for": parseFor,
+  "case": parseCase,
+  "{": parseGroup
+};
 
 /**
  * Parses a command line string into an array of arguments.
@@ -65,3 +316,851 @@ export function parseCommand(input: string): string[] {
   
   return parts;
 }
+
+
+/**
+ * Parses shell input into a command list.
+ * 
+ * The input may span several lines: newlines separate commands like `;`,
+ * continue compound commands, and carry here-document bodies, which start
+ * on the line after the one with their `<<` operator.
+ * 
+ * @param input - Complete shell input, e.g. a command line or a script
+ * @returns Pipelines in execution order, each with its connecting operator
+ * @throws SyntaxError when the input is not a valid command list
+ * 
+ * @example
+ * parseCommandList("make && ./run || echo failed")
+ * // Returns: [
+ * //   { command: "make", operator: null, background: false, negated: false, pipeline: [...] },
+ * //   { command: "./run", operator: "&&", background: false, negated: false, pipeline: [...] },
+ * //   { command: "echo failed", operator: "||", background: false, negated: false, pipeline: [...] }
+ * // ]
+ * parseCommandList("grep -v x <in 2>&1 | sort >out")[0].pipeline
+ * // Returns: [
+ * //   { type: "simple", words: ["grep", "-v", "x"], redirections: [
+ * //     { fd: 0, operator: "<", target: "in" }, { fd: 2, operator: ">&", target: "1" }] },
+ * //   { type: "simple", words: ["sort"], redirections: [{ fd: 1, operator: ">", target: "out" }] }
+ * // ]
+ */
+export function parseCommandList(input: string): CommandListEntry[] {
+  return parseProgram(createState(input));
+}
+
+/**
+ * Checks whether input needs more lines before it can run: it ends inside
+ * a compound command, quote or here-document, or after `|`, `&&`, `||` or a
+ * line-continuing backslash. Input with other syntax errors is complete; the
+ * error is reported when it runs.
+ * 
+ * @param input - The lines read so far, joined by newlines
+ * @returns True if another line should be read
+ * 
+ * @example
+ * isIncomplete("for f in *; do")                 // true
+ * isIncomplete("for f in *; do echo $f; done")   // false
+ * isIncomplete("cat <<EOF\nhello")               // true
+ */
+export function isIncomplete(input: string): boolean {
+  const state = createState(input);
+
+  try {
+    parseProgram(state);
+  } catch (error) {
+    return error instanceof UnexpectedEndError;
+  }
+
+  return state.openHereDocument || state.trailingBackslash;
+}
+
+/**
+ * Checks whether input is still waiting for here-document lines.
+ * 
+ * @param input - The lines read so far, joined by newlines
+ * @returns True if some here-document has not reached its delimiter yet
+ * 
+ * @example
+ * isAwaitingHereDocument("cat <<EOF\nhello")       // true
+ * isAwaitingHereDocument("cat <<EOF\nhello\nEOF")  // false
+ */
+export function isAwaitingHereDocument(input: string): boolean {
+  const state = createState(input);
+
+  try {
+    parseProgram(state);
+  } catch {
+    // Syntax errors are reported when the input runs
+  }
+
+  return state.openHereDocument;
+}
+
+/**
+ * Splits input into the tokens the parser reads, without parsing it, so
+ * that a line can be highlighted while it is typed. Comments, which the
+ * parser skips, are tokens too, and a word with an unterminated quote or
+ * expansion runs to the end of the input.
+ *
+ * @param input - Shell input, possibly incomplete
+ * @returns Tokens in order, with their positions in the input
+ *
+ * @example
+ * tokenizeLine("ls | grep 'a")
+ * // Returns: [
+ * //   { type: "word", text: "ls", start: 0, end: 2, unterminated: false },
+ * //   { type: "operator", text: "|", start: 3, end: 4, unterminated: false },
+ * //   { type: "word", text: "grep", start: 5, end: 9, unterminated: false },
+ * //   { type: "word", text: "'a", start: 10, end: 12, unterminated: true }
+ * // ]
+ */
+export function tokenizeLine(input: string): LineToken[] {
+  const state = createState(input);
+  const tokens: LineToken[] = [];
+
+  while (state.position < input.length) {
+    const position = state.position;
+    let token: Token;
+
+    try {
+      token = lex(state);
+    } catch {
+      const start = position + input.slice(position).search(/[^ \t]|$/);
+
+      tokens.push({ type: "word", text: input.slice(start), start, end: input.length, unterminated: true });
+
+      break;
+    }
+
+    const comment = input.indexOf("#", position);
+
+    if (comment !== -1 && comment < token.start) {
+      const end = Math.min(token.start, input.indexOf("\n", comment) === -1 ? input.length : input.indexOf("\n", comment));
+
+      tokens.push({ type: "comment", text: input.slice(comment, end), start: comment, end, unterminated: false });
+    }
+
+    if (token.type === "end") {
+      break;
+    }
+
+    tokens.push({ type: token.type, text: input.slice(token.start, token.end), start: token.start, end: token.end, unterminated: false });
+  }
+
+  return tokens;
+}
+
+function createState(input: string): ParserState {
+  return {
+    input,
+    position: 0,
+    lookahead: null,
+    lastEnd: 0,
+    pendingHereDocuments: [],
+    openHereDocument: false,
+    trailingBackslash: false,
+    activeAliases: [],
+    aliasNextWordAt: -1
+  };
+}
+
+function parseProgram(state: ParserState): CommandListEntry[] {
+  const entries = parseList(state, []);
+  const token = peek(state);
+
+  if (token.type !== "end") {
+    throw unexpected(token);
+  }
+
+  return entries;
+}
+
+/**
+ * Parses and-or lists separated by `;`, `&` and newlines, up to the end of
+ * input, `)`, `;;` or one of the given reserved words.
+ */
+function parseList(state: ParserState, terminators: string[]): CommandListEntry[] {
+  const entries: CommandListEntry[] = [];
+  let operator: ListOperator | null = null;
+
+  skipNewlines(state);
+
+  while (!isListEnd(peek(state), terminators)) {
+    parseAndOr(state, entries, operator);
+
+    const token = peek(state);
+
+    if (isOperator(token, ";", "&")) {
+      next(state);
+      operator = token.text as ListOperator;
+      entries[entries.length - 1].background = token.text === "&";
+    } else if (token.type === "newline") {
+      operator = ";";
+    } else {
+      break;
+    }
+
+    skipNewlines(state);
+  }
+
+  return entries;
+}
+
+/**
+ * Parses a list that must contain at least one command, such as the body
+ * of a loop.
+ */
+function parseRequiredList(state: ParserState, terminators: string[]): CommandListEntry[] {
+  const entries = parseList(state, terminators);
+
+  if (entries.length === 0) {
+    throw unexpected(peek(state));
+  }
+
+  return entries;
+}
+
+function isListEnd(token: Token, terminators: string[]): boolean {
+  return token.type === "end"
+    || isOperator(token, ")", ";;")
+    || (token.type === "word" && terminators.includes(token.text));
+}
+
+function parseAndOr(state: ParserState, entries: CommandListEntry[], operator: ListOperator | null): void {
+  entries.push(parsePipeline(state, operator));
+
+  while (isOperator(peek(state), "&&", "||")) {
+    const token = next(state);
+
+    skipNewlines(state);
+    entries.push(parsePipeline(state, token.text as ListOperator));
+  }
+}
+
+function parsePipeline(state: ParserState, operator: ListOperator | null): CommandListEntry {
+  const start = peek(state).start;
+  const negated = isWord(peek(state), "!");
+
+  if (negated) {
+    next(state);
+  }
+
+  const pipeline = [parseStage(state)];
+
+  while (isOperator(peek(state), "|")) {
+    next(state);
+    skipNewlines(state);
+    pipeline.push(parseStage(state));
+  }
+
+  return { command: state.input.slice(start, state.lastEnd), operator, background: false, negated, pipeline };
+}
+
+function parseStage(state: ParserState): Command {
+  state.aliasNextWordAt = -1;
+  expandAlias(state);
+
+  const token = peek(state);
+
+  const parseCompound = isOperator(token, "(") ? parseSubshell
+    : token.type === "word" && Object.hasOwn(COMPOUND_PARSERS, token.text) ? COMPOUND_PARSERS[token.text]
+    : null;
+
+  if (parseCompound) {
+    const command = parseCompound(state);
+
+    while (isRedirection(peek(state))) {
+      command.redirections.push(parseRedirection(state));
+    }
+
+    return command;
+  }
+
+  if (isWord(token, "function")) {
+    next(state);
+
+    const name = expectAnyWord(state);
+
+    if (isOperator(peek(state), "(")) {
+      next(state);
+      expectOperator(state, ")");
+    }
+
+    return parseFunctionBody(state, name);
+  }
+
+  if (token.type === "word" && CLOSING_WORDS.includes(token.text)) {
+    throw unexpected(token);
+  }
+
+  const command: SimpleCommand = { type: "simple", words: [], redirections: [] };
+
+  for (let current = token; current.type === "word" || isRedirection(current); current = peek(state)) {
+    if (current.type === "word" && current.start >= state.aliasNextWordAt && state.aliasNextWordAt !== -1) {
+      state.aliasNextWordAt = -1;
+      expandAlias(state);
+      current = peek(state);
+
+      continue;
+    }
+
+    if (current.type === "word" && /^[A-Za-z_][A-Za-z0-9_]*=$/.test(current.text) && command.words.every(word => ASSIGNMENT_PATTERN.test(word))) {
+      next(state);
+
+      if (isOperator(peek(state), "(")) {
+        command.arrays = [...command.arrays ?? [], { name: current.text.slice(0, -1), items: parseArrayItems(state) }];
+      } else {
+        command.words.push(current.text);
+      }
+    } else if (current.type === "word") {
+      command.words.push(next(state).text);
+    } else {
+      command.redirections.push(parseRedirection(state));
+    }
+  }
+
+  if (command.words.length === 0 && command.redirections.length === 0 && !command.arrays) {
+    throw unexpected(peek(state));
+  }
+
+  // "name()" starts a function definition
+  if (command.words.length === 1 && command.redirections.length === 0 && isOperator(peek(state), "(")) {
+    next(state);
+    expectOperator(state, ")");
+
+    return parseFunctionBody(state, command.words[0]);
+  }
+
+  return command;
+}
+
+/**
+ * Replaces the next word by the value of its alias, repeatedly, so that an
+ * alias may expand to another alias. The value is spliced into the input
+ * and lexed in place of the word. A name is not expanded again while its
+ * own value is being read.
+ */
+function expandAlias(state: ParserState): void {
+  for (;;) {
+    const token = peek(state);
+
+    if (token.type !== "word" || RESERVED_WORDS.includes(token.text) || /['"\\$`]/.test(token.text)) {
+      return;
+    }
+
+    const value = findExpandableAlias(token.text);
+
+    state.activeAliases = state.activeAliases.filter(alias => alias.end > token.start);
+
+    if (value === undefined || state.activeAliases.some(alias => alias.name === token.text)) {
+      return;
+    }
+
+    const shift = value.length - (token.end - token.start);
+
+    // Values being read that contain this word grow or shrink with it
+    for (const alias of state.activeAliases) {
+      alias.end += shift;
+    }
+
+    state.input = state.input.slice(0, token.start) + value + state.input.slice(token.end);
+    state.position = token.start;
+    state.lookahead = null;
+    state.activeAliases.push({ name: token.text, end: token.start + value.length });
+    state.aliasNextWordAt = /[ \t]$/.test(value) ? token.start + value.length : -1;
+  }
+}
+
+/**
+ * Parses the parenthesised words of NAME=(word...), which may span lines.
+ */
+function parseArrayItems(state: ParserState): string[] {
+  const items: string[] = [];
+
+  next(state);
+  skipNewlines(state);
+
+  while (peek(state).type === "word") {
+    items.push(next(state).text);
+    skipNewlines(state);
+  }
+
+  expectOperator(state, ")");
+
+  return items;
+}
+
+/**
+ * Parses the body of a function definition, after its name and parentheses.
+ */
+function parseFunctionBody(state: ParserState, name: string): FunctionDefinition {
+  if (!FUNCTION_NAME_PATTERN.test(name)) {
+    throw new SyntaxError(`\`${name}': not a valid identifier`);
+  }
+
+  skipNewlines(state);
+
+  const token = peek(state);
+
+  if (!isOperator(token, "(") && !(token.type === "word" && Object.hasOwn(COMPOUND_PARSERS, token.text))) {
+    throw unexpected(token);
+  }
+
+  const body = parseStage(state) as CompoundCommand;
+
+  return { type: "function", name, body, text: state.input.slice(token.start, state.lastEnd), redirections: [] };
+}
+
+function parseRedirection(state: ParserState): Redirection {
+  const [, digits, operatorText] = REDIRECTION_PATTERN.exec(next(state).text) as RegExpExecArray;
+  const operator = operatorText as RedirectionOperator;
+  const target = next(state);
+
+  if (target.type !== "word") {
+    throw new SyntaxError(`syntax error near unexpected token \`${target.type === "operator" ? target.text : "newline"}'`);
+  }
+
+  const fd = digits ? parseInt(digits, 10) : operator.startsWith("<") ? 0 : 1;
+  const redirection: Redirection = { fd, operator, target: target.text };
+
+  // The body is read once the lexer reaches the end of this line
+  if (operator === "<<" || operator === "<<-") {
+    state.pendingHereDocuments.push(redirection);
+  }
+
+  return redirection;
+}
+
+function parseIf(state: ParserState): IfCommand {
+  const branches: IfCommand["branches"] = [];
+  let elseBody: CommandListEntry[] | null = null;
+
+  do {
+    // "if" or "elif"
+    next(state);
+
+    const condition = parseRequiredList(state, ["then"]);
+
+    expectWord(state, "then");
+    branches.push({ condition, body: parseRequiredList(state, ["elif", "else", "fi"]) });
+  } while (isWord(peek(state), "elif"));
+
+  if (isWord(peek(state), "else")) {
+    next(state);
+    elseBody = parseRequiredList(state, ["fi"]);
+  }
+
+  expectWord(state, "fi");
+
+  return { type: "if", branches, elseBody, redirections: [] };
+}
+
+function parseLoop(state: ParserState): LoopCommand {
+  const type = next(state).text as LoopCommand["type"];
+  const condition = parseRequiredList(state, ["do"]);
+
+  return { type, condition, body: parseDoGroup(state), redirections: [] };
+}
+
+function parseFor(state: ParserState): ForCommand {
+  next(state);
+
+  const name = next(state);
+
+  if (name.type !== "word") {
+    throw unexpected(name);
+  }
+
+  if (!NAME_PATTERN.test(name.text)) {
+    throw new SyntaxError(`\`${name.text}': not a valid identifier`);
+  }
+
+  let items: string[] | null = null;
+
+  skipNewlines(state);
+
+  if (isWord(peek(state), "in")) {
+    next(state);
+    items = [];
+
+    while (peek(state).type === "word") {
+      items.push(next(state).text);
+    }
+
+    const separator = next(state);
+
+    if (!isOperator(separator, ";") && separator.type !== "newline") {
+      throw unexpected(separator);
+    }
+  } else if (isOperator(peek(state), ";")) {
+    next(state);
+  }
+
+  skipNewlines(state);
+
+  return { type: "for", variable: name.text, items, body: parseDoGroup(state), redirections: [] };
+}
+
+function parseDoGroup(state: ParserState): CommandListEntry[] {
+  expectWord(state, "do");
+
+  const body = parseRequiredList(state, ["done"]);
+
+  expectWord(state, "done");
+
+  return body;
+}
+
+function parseCase(state: ParserState): CaseCommand {
+  next(state);
+
+  const subject = expectAnyWord(state);
+  const items: CaseCommand["items"] = [];
+
+  skipNewlines(state);
+  expectWord(state, "in");
+  skipNewlines(state);
+
+  while (!isWord(peek(state), "esac")) {
+    if (isOperator(peek(state), "(")) {
+      next(state);
+    }
+
+    const patterns = [expectAnyWord(state)];
+
+    while (isOperator(peek(state), "|")) {
+      next(state);
+      patterns.push(expectAnyWord(state));
+    }
+
+    const close = next(state);
+
+    if (!isOperator(close, ")")) {
+      throw unexpected(close);
+    }
+
+    items.push({ patterns, body: parseList(state, ["esac"]) });
+
+    // The last item may omit its ";;"
+    if (!isOperator(peek(state), ";;")) {
+      break;
+    }
+
+    next(state);
+    skipNewlines(state);
+  }
+
+  expectWord(state, "esac");
+
+  return { type: "case", subject, items, redirections: [] };
+}
+
+function parseGroup(state: ParserState): GroupCommand {
+  next(state);
+
+  const body = parseRequiredList(state, ["}"]);
+
+  expectWord(state, "}");
+
+  return { type: "group", body, redirections: [] };
+}
+
+function parseSubshell(state: ParserState): GroupCommand {
+  next(state);
+
+  const body = parseRequiredList(state, []);
+  const close = next(state);
+
+  if (!isOperator(close, ")")) {
+    throw unexpected(close);
+  }
+
+  return { type: "subshell", body, redirections: [] };
+}
+
+function expectWord(state: ParserState, word: string): void {
+  const token = next(state);
+
+  if (!isWord(token, word)) {
+    throw unexpected(token);
+  }
+}
+
+function expectOperator(state: ParserState, operator: string): void {
+  const token = next(state);
+
+  if (!isOperator(token, operator)) {
+    throw unexpected(token);
+  }
+}
+
+function expectAnyWord(state: ParserState): string {
+  const token = next(state);
+
+  if (token.type !== "word") {
+    throw unexpected(token);
+  }
+
+  return token.text;
+}
+
+function skipNewlines(state: ParserState): void {
+  while (peek(state).type === "newline") {
+    next(state);
+  }
+}
+
+function isWord(token: Token, word: string): boolean {
+  return token.type === "word" && token.text === word;
+}
+
+function isOperator(token: Token, ...operators: string[]): boolean {
+  return token.type === "operator" && operators.includes(token.text);
+}
+
+function isRedirection(token: Token): boolean {
+  return token.type === "operator" && REDIRECTION_PATTERN.test(token.text);
+}
+
+/**
+ * Error for a token the grammar does not allow here. Running out of input
+ * means the command is incomplete rather than wrong.
+ */
+function unexpected(token: Token): SyntaxError {
+  if (token.type === "end") {
+    return new UnexpectedEndError();
+  }
+
+  return new SyntaxError(`syntax error near unexpected token \`${token.type === "newline" ? "newline" : token.text}'`);
+}
+
+function peek(state: ParserState): Token {
+  if (!state.lookahead) {
+    state.lookahead = lex(state);
+  }
+
+  return state.lookahead;
+}
+
+function next(state: ParserState): Token {
+  const token = peek(state);
+
+  state.lookahead = null;
+  state.lastEnd = token.end;
+
+  return token;
+}
+
+/**
+ * Reads the next token. Tokens are read one at a time, only when the parser
+ * asks for them, so here-documents seen on a line are known by the time its
+ * newline is read.
+ */
+function lex(state: ParserState): Token {
+  const { input } = state;
+  let i = state.position;
+
+  // Skip blanks, line continuations and comments
+  while (i < input.length) {
+    if (input[i] === " " || input[i] === "\t") {
+      i++;
+    } else if (input[i] === "\\" && input[i + 1] === "\n") {
+      i += 2;
+    } else if (input[i] === "\\" && i + 1 === input.length) {
+      state.trailingBackslash = true;
+      i++;
+    } else if (input[i] === "#") {
+      while (i < input.length && input[i] !== "\n") {
+        i++;
+      }
+    } else {
+      break;
+    }
+  }
+
+  if (i >= input.length) {
+    state.position = i;
+    state.openHereDocument = state.openHereDocument || state.pendingHereDocuments.length > 0;
+
+    return { type: "end", text: "", start: i, end: i };
+  }
+
+  if (input[i] === "\n") {
+    state.position = i + 1;
+    readHereDocuments(state);
+
+    return { type: "newline", text: "\n", start: i, end: i + 1 };
+  }
+
+  const operator = OPERATORS.find(candidate => input.startsWith(candidate, i));
+
+  if (operator) {
+    state.position = i + operator.length;
+
+    return { type: "operator", text: operator, start: i, end: state.position };
+  }
+
+  return lexWord(state, i);
+}
+
+/**
+ * Reads a word, keeping quotes, escapes and expansions in place for the
+ * expansion phase. Digits right before `<` or `>` become the descriptor
+ * number of that redirection operator instead.
+ */
+function lexWord(state: ParserState, start: number): Token {
+  const { input } = state;
+  let text = "";
+  let quoteChar = "";
+  let i = start;
+
+  while (i < input.length) {
+    const char = input[i];
+    const expansionEnd = quoteChar !== "'" ? findExpansionEnd(input, i) : -1;
+
+    if (quoteChar === "'") {
+      quoteChar = char === "'" ? "" : quoteChar;
+      text += char;
+      i++;
+    } else if (char === "\\") {
+      if (input[i + 1] !== "\n") {
+        text += input.slice(i, i + 2);
+      }
+
+      state.trailingBackslash = state.trailingBackslash || i + 1 === input.length;
+      i += 2;
+    } else if (expansionEnd !== -1) {
+      // Copy ${...}, $(...) and `...` verbatim, newlines included
+      text += input.slice(i, expansionEnd + 1);
+      i = expansionEnd + 1;
+    } else if (char === "`" || (char === "$" && (input[i + 1] === "(" || input[i + 1] === "{"))) {
+      throw new UnexpectedEndError(`unexpected EOF while looking for matching \`${char === "`" ? "`" : input[i + 1] === "(" ? ")" : "}"}'`);
+    } else if ((char === "'" || char === '"') && !quoteChar) {
+      quoteChar = char;
+      text += char;
+      i++;
+    } else if (char === quoteChar) {
+      quoteChar = "";
+      text += char;
+      i++;
+    } else if (!quoteChar && (char === " " || char === "\t" || char === "\n" || OPERATORS.some(operator => input.startsWith(operator, i)))) {
+      break;
+    } else {
+      text += char;
+      i++;
+    }
+  }
+
+  if (quoteChar) {
+    throw new UnexpectedEndError(`unexpected EOF while looking for matching \`${quoteChar}'`);
+  }
+
+  const redirection = /^[0-9]+$/.test(text) ? OPERATORS.find(operator => /^[<>]/.test(operator) && input.startsWith(operator, i)) : undefined;
+
+  if (redirection) {
+    state.position = i + redirection.length;
+
+    return { type: "operator", text: text + redirection, start, end: state.position };
+  }
+
+  state.position = i;
+
+  return { type: "word", text, start, end: i };
+}
+
+/**
+ * Reads the bodies of the here-documents started on the line that just
+ * ended. A body ends at a line equal to the delimiter after quote removal;
+ * `<<-` strips leading tabs from every line, the delimiter line included.
+ */
+function readHereDocuments(state: ParserState): void {
+  const { input } = state;
+
+  for (const redirection of state.pendingHereDocuments.splice(0)) {
+    const delimiter = parseCommand(redirection.target).join("");
+    const body: string[] = [];
+    let terminated = false;
+
+    while (!terminated && state.position < input.length) {
+      const newline = input.indexOf("\n", state.position);
+      const end = newline === -1 ? input.length : newline;
+      const line = redirection.operator === "<<-"
+        ? input.slice(state.position, end).replace(/^\t+/, "")
+        : input.slice(state.position, end);
+
+      state.position = end + 1;
+
+      if (line === delimiter) {
+        terminated = true;
+      } else {
+        body.push(`${line}\n`);
+      }
+    }
+
+    redirection.body = body.join("");
+    state.openHereDocument = state.openHereDocument || !terminated;
+  }
+}
+
+/**
+ * Finds the end of an expansion that starts at input[start].
+ * Recognises `${...}`, `$(...)` and backquoted `...`, skipping nested
+ * expansions, quoted text and escaped characters inside them.
+ * 
+ * @param input - Text containing the expansion
+ * @param start - Index of the opening "$" or "`"
+ * @returns Index of the closing "}", ")" or "`", or -1 if input[start]
+ *          does not open an expansion or the expansion is unterminated
+ * 
+ * @example
+ * findExpansionEnd("echo $(basename $(pwd)) done", 5)
+ * // Returns: 22
+ */
+export function findExpansionEnd(input: string, start: number): number {
+  if (input[start] === "`") {
+    for (let i = start + 1; i < input.length; i++) {
+      if (input[i] === "\\") {
+        i++;
+      } else if (input[i] === "`") {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  const open = input[start + 1];
+
+  if (input[start] !== "$" || (open !== "{" && open !== "(")) {
+    return -1;
+  }
+
+  const close = open === "{" ? "}" : ")";
+  let depth = 1;
+  let quoteChar = "";
+
+  for (let i = start + 2; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoteChar === "'") {
+      if (char === "'") {
+        quoteChar = "";
+      }
+    } else if (char === "\\") {
+      i++;
+    } else if (char === '"') {
+      quoteChar = quoteChar ? "" : char;
+    } else if (char === "'" && !quoteChar) {
+      quoteChar = char;
+    } else if ((char === "$" || char === "`") && findExpansionEnd(input, i) !== -1) {
+      i = findExpansionEnd(input, i);
+    } else if (quoteChar) {
+      continue;
+    } else if (char === "(" && open === "(") {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
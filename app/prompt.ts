@@ -0,0 +1,314 @@
+/**
+ * Prompt Module
+ *
+ * Renders the prompts from PS1 (before each command) and PS2 (before each
+ * continuation line), and runs PROMPT_COMMAND before PS1 is shown.
+ *
+ * Escapes supported (as in bash):
+ * - \u: User name
+ * - \h, \H: Host name up to the first ".", full host name
+ * - \w, \W: Working directory with $HOME shown as ~, its last component
+ * - \$: "#" for root, "$" otherwise
+ * - \t, \T, \@, \A: Time as 24h HH:MM:SS, 12h HH:MM:SS, 12h am/pm, 24h HH:MM
+ * - \d: Date as "Tue May 26"
+ * - \D{format}: Date and time in a strftime format (see formatDate), the
+ *   time of day for an empty format
+ * - \s: Shell name
+ * - \j: Number of jobs
+ * - \?: Exit status of the last command (not in bash, which uses $?)
+ * - \g: Git branch, "*" for changes and ↑/↓ ahead/behind counts, as in
+ *   "(main *↑1)"; empty outside a repository (not in bash, see git.ts)
+ * - \e, \nnn, \a, \n, \r, \\: Escape, octal character, bell, newline,
+ *   carriage return, backslash
+ * - \[ and \]: Enclose non-printing text; dropped, since ANSI escape
+ *   sequences never count towards the prompt's width
+ *
+ * Defaults: PS1 is "$ ", PS2 is "> ".
+ *
+ * The git status is read before each PS1 prompt, after the previous command
+ * has finished, and only while PS1 or PS2 uses \g. It is opt-in, by adding
+ * \g to PS1 (in ~/.tsshrc, say), because reading it runs git before every
+ * prompt, which may hold the prompt up for as long as GIT_STATUS_TIMEOUT
+ * (see git.ts), and because programs driving the shell expect the plain
+ * "$ " prompt of bash.
+ */
+
+import { Observable, of, defer } from "rxjs";
+import { map, catchError } from "rxjs/operators";
+import os from "node:os";
+import path from "node:path";
+import { parseCommandList } from "./parser";
+import type { CommandListEntry } from "./parser";
+import type { CommandResult } from "./executor";
+import { getVariable } from "./variables";
+import { getLastExitStatus, setLastExitStatus } from "./status";
+import { getJobCount } from "./jobs";
+import { SHELL_NAME } from "./parameters";
+import { readGitStatus$, formatGitStatus } from "./git";
+import type { GitStatus } from "./git";
+
+/**
+ * Runs the command list of PROMPT_COMMAND.
+ */
+export type PromptCommandRunner = (list: CommandListEntry[]) => Observable<CommandResult>;
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+// The prompt on screen, for redrawing the input line
+let currentPrompt = "$ ";
+// Git status of the working directory as of the last refresh
+let gitStatus: GitStatus | null = null;
+
+/**
+ * Expands the escapes of a prompt string.
+ *
+ * @param template - Value of PS1 or PS2
+ * @returns The prompt to display
+ *
+ * @example
+ * // As user "dev" in /home/dev/src after a failed command
+ * renderPrompt("\\[\\e[32m\\]\\u\\[\\e[0m\\]:\\W [\\?]\\$ ")
+ * // Returns: "\x1b[32mdev\x1b[0m:src [1]$ "
+ */
+export function renderPrompt(template: string): string {
+  const now = new Date();
+
+  return template.replace(/\\([0-7]{3}|D\{[^}]*\}|.)/g, (escape, code: string) => {
+    if (code.startsWith("D{")) {
+      return formatDate(code.slice(2, -1) || "%X", now);
+    }
+
+    switch (code) {
+      case "u":
+        return getUserName();
+      case "h":
+        return os.hostname().split(".")[0];
+      case "H":
+        return os.hostname();
+      case "w":
+        return formatDirectory(process.cwd());
+      case "W":
+        return process.cwd() === getVariable("HOME") ? "~" : path.basename(process.cwd()) || "/";
+      case "$":
+        return process.getuid?.() === 0 ? "#" : "$";
+      case "t":
+        return formatTime(now.getHours(), now, true);
+      case "T":
+        return formatTime(now.getHours() % 12 || 12, now, true);
+      case "@":
+        return `${formatTime(now.getHours() % 12 || 12, now, false)} ${now.getHours() < 12 ? "AM" : "PM"}`;
+      case "A":
+        return formatTime(now.getHours(), now, false);
+      case "d":
+        return formatDate("%a %b %d", now);
+      case "s":
+        return SHELL_NAME;
+      case "j":
+        return String(getJobCount());
+      case "?":
+        return String(getLastExitStatus());
+      case "g":
+        return gitStatus ? formatGitStatus(gitStatus) : "";
+      case "e":
+        return "\x1b";
+      case "a":
+        return "\x07";
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "\\":
+        return "\\";
+      case "[":
+      case "]":
+        return "";
+      default:
+        return /^[0-7]{3}$/.test(code) ? String.fromCharCode(parseInt(code, 8)) : escape;
+    }
+  });
+}
+
+/**
+ * Formats a date with strftime conversions, as bash does for \D{format}
+ * and HISTTIMEFORMAT.
+ *
+ * Conversions supported: %a %A %b %B %c %d %D %e %F %H %I %j %m %M %n %p
+ * %R %s %S %t %T %u %w %x %X %y %Y %%; others are left as they are.
+ *
+ * @param format - strftime format
+ * @param date - Date to format, in local time
+ * @returns The formatted date
+ *
+ * @example
+ * formatDate("%F %T ", new Date(2024, 4, 26, 9, 5, 0))   // "2024-05-26 09:05:00 "
+ */
+export function formatDate(format: string, date: Date): string {
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  const startOfYear = new Date(date.getFullYear(), 0, 1);
+  const dayOfYear = Math.round((new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - startOfYear.getTime()) / 86400000) + 1;
+
+  return format.replace(/%(.)/g, (conversion, code: string) => {
+    switch (code) {
+      case "a":
+        return DAYS[date.getDay()].slice(0, 3);
+      case "A":
+        return DAYS[date.getDay()];
+      case "b":
+        return MONTHS[date.getMonth()].slice(0, 3);
+      case "B":
+        return MONTHS[date.getMonth()];
+      case "c":
+        return formatDate("%a %b %e %H:%M:%S %Y", date);
+      case "d":
+        return pad(date.getDate());
+      case "D":
+      case "x":
+        return formatDate("%m/%d/%y", date);
+      case "e":
+        return String(date.getDate()).padStart(2, " ");
+      case "F":
+        return formatDate("%Y-%m-%d", date);
+      case "H":
+        return pad(date.getHours());
+      case "I":
+        return pad(date.getHours() % 12 || 12);
+      case "j":
+        return pad(dayOfYear, 3);
+      case "m":
+        return pad(date.getMonth() + 1);
+      case "M":
+        return pad(date.getMinutes());
+      case "n":
+        return "\n";
+      case "p":
+        return date.getHours() < 12 ? "AM" : "PM";
+      case "R":
+        return formatDate("%H:%M", date);
+      case "s":
+        return String(Math.floor(date.getTime() / 1000));
+      case "S":
+        return pad(date.getSeconds());
+      case "t":
+        return "\t";
+      case "T":
+      case "X":
+        return formatDate("%H:%M:%S", date);
+      case "u":
+        return String(date.getDay() || 7);
+      case "w":
+        return String(date.getDay());
+      case "y":
+        return pad(date.getFullYear() % 100);
+      case "Y":
+        return String(date.getFullYear());
+      case "%":
+        return "%";
+      default:
+        return conversion;
+    }
+  });
+}
+
+/**
+ * Renders PS1 or PS2 and records it as the prompt on screen.
+ *
+ * @param kind - "primary" for PS1, "continuation" for PS2
+ * @returns The prompt to display
+ */
+export function updatePrompt(kind: "primary" | "continuation"): string {
+  const template = kind === "primary" ? getVariable("PS1") ?? "$ " : getVariable("PS2") ?? "> ";
+
+  currentPrompt = renderPrompt(template);
+
+  return currentPrompt;
+}
+
+/**
+ * Returns the prompt last rendered by updatePrompt, so that the input line
+ * can be redrawn after printing below it.
+ *
+ * @returns The prompt on screen
+ */
+export function getCurrentPrompt(): string {
+  return currentPrompt;
+}
+
+/**
+ * Runs PROMPT_COMMAND, if set. `$?` keeps the status of the last command
+ * typed, so the prompt can still show it.
+ *
+ * @param runList - Executes the command list
+ * @returns Observable that emits once the command has finished
+ */
+export function runPromptCommand$(runList: PromptCommandRunner): Observable<void> {
+  return defer(() => {
+    const command = getVariable("PROMPT_COMMAND");
+
+    if (!command) {
+      return of(void 0);
+    }
+
+    const exitStatus = getLastExitStatus();
+
+    return defer(() => runList(parseCommandList(command))).pipe(
+      catchError(error => {
+        console.error(`PROMPT_COMMAND: ${error.message}`);
+
+        return of(null);
+      }),
+      map(() => setLastExitStatus(exitStatus))
+    );
+  });
+}
+
+/**
+ * Reads the git status of the working directory for `\g`, if a prompt
+ * uses it.
+ *
+ * @returns Observable that emits once the status is up to date
+ */
+export function refreshGitStatus$(): Observable<void> {
+  return defer(() => {
+    const templates = [getVariable("PS1"), getVariable("PS2")].join("");
+
+    if (!/(^|[^\\])(\\\\)*\\g/.test(templates)) {
+      gitStatus = null;
+
+      return of(void 0);
+    }
+
+    return readGitStatus$(process.cwd()).pipe(
+      map(status => {
+        gitStatus = status;
+      })
+    );
+  });
+}
+
+function getUserName(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return getVariable("USER") ?? "";
+  }
+}
+
+/**
+ * Shows a directory with the home directory abbreviated to ~.
+ */
+function formatDirectory(directory: string): string {
+  const home = getVariable("HOME");
+
+  if (home && (directory === home || directory.startsWith(`${home}/`))) {
+    return `~${directory.slice(home.length)}`;
+  }
+
+  return directory;
+}
+
+function formatTime(hours: number, date: Date, seconds: boolean): string {
+  const parts = seconds ? [hours, date.getMinutes(), date.getSeconds()] : [hours, date.getMinutes()];
+
+  return parts.map(part => String(part).padStart(2, "0")).join(":");
+}
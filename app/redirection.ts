@@ -0,0 +1,252 @@
+/**
+ * Redirection Module
+ *
+ * Applies a command's redirections to its I/O before it runs. Redirections
+ * are processed left to right, so `>out 2>&1` sends both streams to the
+ * file while `2>&1 >out` sends only stdout there, as in bash.
+ *
+ * Operators supported (N defaults to 0 for `<` forms and 1 for `>` forms):
+ * - N<file: Read from a file
+ * - N>file, N>|file: Write to a file, truncating it
+ * - N>>file: Append to a file
+ * - N<>file: Open a file for reading and writing
+ * - N>&M, N<&M: Duplicate descriptor M onto N
+ * - N>&-, N<&-: Close descriptor N
+ * - &>file, >&file: Write stdout and stderr to a file
+ * - &>>file: Append stdout and stderr to a file
+ * - N<<DELIM, N<<-DELIM, N<<<word: Read a here-document or here-string
+ *
+ * Files are opened as real file descriptors: external commands receive the
+ * descriptor itself, so their output streams straight to the file. Builtins
+ * write through a stream on the same descriptor, which is flushed and
+ * closed once the command finishes.
+ *
+ * Descriptors 3 to 9 can be opened, duplicated and closed like the standard
+ * ones (`echo hi 3>file >&3`). Builtins only write to 0-2, so they reach the
+ * others through a duplication; external commands receive them at their
+ * own numbers.
+ */
+
+import { Observable, of, from, defer, throwError } from "rxjs";
+import { map, concatMap, catchError, finalize } from "rxjs/operators";
+import fs, { promises as fsPromises } from "node:fs";
+import type { FileHandle } from "node:fs/promises";
+import { Readable, Writable } from "node:stream";
+import type { Redirection, RedirectionOperator } from "./parser";
+import type { CommandIO } from "./io";
+import type { CommandResult } from "./executor";
+
+/**
+ * Raised when a redirection cannot be performed, e.g. a missing input file.
+ */
+export class RedirectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedirectionError";
+  }
+}
+
+interface OpenedFile {
+  handle: FileHandle;
+  stream: Readable | Writable;
+}
+
+const OPEN_FLAGS: Partial<Record<RedirectionOperator, string | number>> = {
+  "<": "r",
+  ">": "w",
+  ">|": "w",
+  ">>": "a",
+  "<>": fs.constants.O_RDWR | fs.constants.O_CREAT,
+  "&>": "w",
+  "&>>": "a"
+};
+
+// Highest descriptor redirections can use
+const MAX_FD = 9;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  ENOENT: "No such file or directory",
+  EACCES: "Permission denied",
+  EISDIR: "Is a directory",
+  ENOTDIR: "Not a directory"
+};
+
+/**
+ * Runs a command with its redirections applied.
+ *
+ * If a redirection fails, the error is reported on the command's stderr and
+ * the command does not run (status 1). Files opened for the command are
+ * closed once it finishes.
+ *
+ * @param redirections - Expanded redirections, in the order written
+ * @param io - I/O the command would use without redirections
+ * @param execute - Runs the command with the redirected I/O
+ * @returns Observable that emits the command's result
+ *
+ * @example
+ * // ls missing >out 2>&1
+ * withRedirections$(
+ *   [{ fd: 1, operator: ">", target: "out" }, { fd: 2, operator: ">&", target: "1" }],
+ *   standardIO,
+ *   io => executeExternalCommand$(["ls", "missing"], env, io)
+ * )
+ */
+export function withRedirections$(
+  redirections: Redirection[],
+  io: CommandIO,
+  execute: (io: CommandIO) => Observable<CommandResult>
+): Observable<CommandResult> {
+  if (redirections.length === 0) {
+    return execute(io);
+  }
+
+  return defer(() => {
+    const opened: OpenedFile[] = [];
+
+    return redirections.reduce<Observable<CommandIO>>(
+      (io$, redirection) => io$.pipe(concatMap(current => applyRedirection$(redirection, current, opened))),
+      of(io)
+    ).pipe(
+      concatMap(execute),
+      catchError(error => {
+        if (!(error instanceof RedirectionError)) {
+          return throwError(() => error);
+        }
+
+        io.stderr.write(`${error.message}\n`);
+
+        return of<CommandResult>({ exitCode: 1 });
+      }),
+      concatMap(result => from(closeFiles(opened)).pipe(map(() => result))),
+      // Also release the files when the command fails or is cancelled
+      finalize(() => closeFiles(opened).catch(() => {}))
+    );
+  });
+}
+
+function applyRedirection$(redirection: Redirection, io: CommandIO, opened: OpenedFile[]): Observable<CommandIO> {
+  const { fd, operator, target } = redirection;
+
+  if (operator === "<<" || operator === "<<-" || operator === "<<<") {
+    // The text is piped to external commands through their stdin
+    return defer(() => of(assignStream(io, fd, Readable.from([redirection.body ?? ""]), true)));
+  }
+
+  if (operator !== ">&" && operator !== "<&") {
+    return openFile$(redirection, io, opened);
+  }
+
+  if (target === "-") {
+    return defer(() => of(fd > 2 ? closeDescriptor(io, fd) : assignStream(io, fd, fd === 0 ? Readable.from([]) : createDiscardStream(), fd === 0)));
+  }
+
+  if (/^[0-9]+$/.test(target)) {
+    return defer(() => of(assignStream(io, fd, streamOf(io, parseInt(target, 10)), operator === "<&")));
+  }
+
+  if (operator === "<&" || fd !== 1) {
+    return throwError(() => new RedirectionError(`${target}: ambiguous redirect`));
+  }
+
+  // ">&file" is another spelling of "&>file"
+  return openFile$({ fd, operator: "&>", target }, io, opened);
+}
+
+function openFile$(redirection: Redirection, io: CommandIO, opened: OpenedFile[]): Observable<CommandIO> {
+  const { fd, operator, target } = redirection;
+
+  return from(fsPromises.open(target, OPEN_FLAGS[operator])).pipe(
+    catchError(error => throwError(() => new RedirectionError(
+      `${target}: ${ERROR_MESSAGES[error.code] ?? error.message}`
+    ))),
+    map(handle => {
+      const input = fd === 0 || (fd > 2 && operator === "<");
+      // autoClose is off: the handle is closed by closeFiles after the command
+      const stream = input
+        ? fs.createReadStream(target, { fd: handle.fd, autoClose: false })
+        : fs.createWriteStream(target, { fd: handle.fd, autoClose: false });
+
+      opened.push({ handle, stream });
+
+      if (operator === "&>" || operator === "&>>") {
+        return { ...io, stdout: stream as Writable, stderr: stream as Writable };
+      }
+
+      return assignStream(io, fd, stream, input);
+    })
+  );
+}
+
+/**
+ * Returns a copy of the I/O with descriptor `fd` replaced by `stream`.
+ * Whether the command reads from it matters for descriptors above 2 only.
+ */
+function assignStream(io: CommandIO, fd: number, stream: Readable | Writable, input: boolean): CommandIO {
+  if (fd === 0 && stream instanceof Readable) {
+    return { ...io, stdin: stream };
+  }
+
+  if (fd === 1 && stream instanceof Writable) {
+    return { ...io, stdout: stream };
+  }
+
+  if (fd === 2 && stream instanceof Writable) {
+    return { ...io, stderr: stream };
+  }
+
+  if (fd > 2 && fd <= MAX_FD) {
+    return { ...io, fds: { ...io.fds, [fd]: { stream, input } } };
+  }
+
+  throw new RedirectionError(`${fd}: Bad file descriptor`);
+}
+
+/**
+ * Returns a copy of the I/O without descriptor `fd`, one above 2.
+ */
+function closeDescriptor(io: CommandIO, fd: number): CommandIO {
+  const fds = { ...io.fds };
+
+  delete fds[fd];
+
+  return { ...io, fds };
+}
+
+function streamOf(io: CommandIO, fd: number): Readable | Writable {
+  const stream = [io.stdin, io.stdout, io.stderr][fd] ?? io.fds?.[fd]?.stream;
+
+  if (!stream) {
+    throw new RedirectionError(`${fd}: Bad file descriptor`);
+  }
+
+  return stream;
+}
+
+/**
+ * Output stream for a closed descriptor; everything written is dropped.
+ */
+function createDiscardStream(): Writable {
+  return new Writable({
+    write(chunk, encoding, callback) {
+      callback();
+    }
+  });
+}
+
+/**
+ * Flushes what builtins wrote and closes the descriptors. Each file is
+ * closed only once, even when called again from finalize.
+ */
+async function closeFiles(opened: OpenedFile[]): Promise<void> {
+  for (const { handle, stream } of opened.splice(0)) {
+    // Input streams are left alone: destroying one may close the descriptor under the handle
+    if (stream instanceof Writable) {
+      await new Promise<void>(resolve => {
+        stream.once("error", () => resolve());
+        stream.end(() => resolve());
+      });
+    }
+
+    await handle.close();
+  }
+}
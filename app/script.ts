@@ -0,0 +1,296 @@
+/**
+ * Script Module
+ *
+ * Decides where the shell reads its commands from, based on its arguments,
+ * reads non-interactive input and runs sourced files.
+ *
+ * Invocations supported:
+ * - your_program.sh: Interactive when stdin is a terminal, otherwise the
+ *   script is read from stdin
+ * - your_program.sh script.sh [arg...]: Run a script file; $0 is its path
+ * - your_program.sh -c 'command' [name [arg...]]: Run a command string;
+ *   $0 is name
+ * - #!/usr/bin/env your_program.sh: The kernel runs the script as above,
+ *   and the #! line is an ordinary comment
+ * - --norc: Do not read the rc file in an interactive shell
+ * - --rcfile FILE: Read FILE instead of ~/.tsshrc in an interactive shell
+ *
+ * Commands supported:
+ * - source FILE [arg...], . FILE [arg...]: Run FILE's commands in the
+ *   current shell. A FILE without "/" is looked up in PATH, then in the
+ *   current directory. Args become the positional parameters meanwhile
+ */
+
+import { Observable, EMPTY, from, of, concat, defer, throwError } from "rxjs";
+import { map, concatMap, catchError, takeWhile, last, tap, finalize } from "rxjs/operators";
+import { promises as fsPromises, statSync } from "node:fs";
+import path from "node:path";
+import { parseCommandList, isIncomplete } from "./parser";
+import type { CommandListEntry } from "./parser";
+import type { CommandResult } from "./executor";
+import { interruptsList } from "./interpreter";
+import { executeReturnable$ } from "./functions";
+import { SHELL_NAME, getPositionalParameters, setPositionalParameters } from "./parameters";
+import { write$ } from "./io";
+import type { CommandIO } from "./io";
+
+/**
+ * How the shell was started. Without `command` or `scriptPath`, commands
+ * are read from stdin. `rcFile` replaces ~/.tsshrc; `noRc` skips it.
+ */
+export interface Invocation {
+  command?: string;
+  scriptPath?: string;
+  name: string;
+  parameters: string[];
+  noRc: boolean;
+  rcFile?: string;
+}
+
+/**
+ * Runs a parsed command list, continuing the history index of the
+ * commands before it.
+ */
+export type SourceRunner = (list: CommandListEntry[], lastAppendedIndex: number) => Observable<CommandResult>;
+
+/**
+ * Raised for invalid arguments or a script that cannot be read.
+ */
+export class ScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScriptError";
+  }
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  ENOENT: "No such file or directory",
+  EACCES: "Permission denied",
+  EISDIR: "Is a directory"
+};
+
+/**
+ * Parses the shell's own command-line arguments.
+ *
+ * @param args - Arguments after the program name
+ * @returns Where to read commands from and the positional parameters
+ * @throws ScriptError for unknown options or a `-c` without a command
+ *
+ * @example
+ * parseInvocation(["-c", "echo $1", "sh", "hi"])
+ * // Returns: { command: "echo $1", name: "sh", parameters: ["hi"], noRc: false }
+ * parseInvocation(["--rcfile", "dev.rc"])
+ * // Returns: { name: "tssh", parameters: [], noRc: false, rcFile: "dev.rc" }
+ * parseInvocation(["build.sh", "--fast"])
+ * // Returns: { scriptPath: "build.sh", name: "build.sh", parameters: ["--fast"], noRc: false }
+ */
+export function parseInvocation(args: string[]): Invocation {
+  const startup: Pick<Invocation, "noRc" | "rcFile"> = { noRc: false };
+  let i = 0;
+
+  for (; i < args.length && args[i].startsWith("-"); i++) {
+    const option = args[i];
+
+    if (option === "--") {
+      i++;
+
+      break;
+    }
+
+    if (option === "--norc") {
+      startup.noRc = true;
+
+      continue;
+    }
+
+    if (option !== "-c" && option !== "--rcfile") {
+      throw new ScriptError(`${option}: invalid option`);
+    }
+
+    if (i + 1 >= args.length) {
+      throw new ScriptError(`${option}: option requires an argument`);
+    }
+
+    if (option === "--rcfile") {
+      startup.rcFile = args[++i];
+
+      continue;
+    }
+
+    const [name = SHELL_NAME, ...parameters] = args.slice(i + 2);
+
+    return { command: args[i + 1], name, parameters, ...startup };
+  }
+
+  const [scriptPath, ...parameters] = args.slice(i);
+
+  if (scriptPath === undefined) {
+    return { name: SHELL_NAME, parameters: [], ...startup };
+  }
+
+  return { scriptPath, name: scriptPath, parameters, ...startup };
+}
+
+/**
+ * Reads the lines of a script file or `-c` command string.
+ *
+ * @param invocation - Result of parseInvocation with a command or scriptPath
+ * @returns Observable of the script's lines, without line terminators
+ */
+export function readScript$(invocation: Invocation): Observable<string> {
+  return invocation.command !== undefined ? splitLines$(invocation.command) : readLines$(invocation.scriptPath ?? "");
+}
+
+function readLines$(filePath: string): Observable<string> {
+  return from(fsPromises.readFile(filePath, "utf8")).pipe(
+    catchError(error => throwError(() => new ScriptError(
+      `${filePath}: ${ERROR_MESSAGES[error.code] ?? error.message}`
+    ))),
+    concatMap(text => splitLines$(text))
+  );
+}
+
+function splitLines$(text: string): Observable<string> {
+  // A final newline does not start another line
+  return from(text.replace(/\n$/, "").split("\n"));
+}
+
+/**
+ * Runs a file's commands in the current shell. Commands are parsed one at
+ * a time, each once the previous one has finished, so aliases it defines
+ * apply to the rest of the file. `return` ends the file early, a syntax
+ * error ends it with status 2.
+ *
+ * @param filePath - File to read
+ * @param runList - Executes each command
+ * @param lastAppendedIndex - History tracking index
+ * @param io - Where errors are reported
+ * @returns Observable that emits the result of the last command that ran
+ *
+ * @example
+ * sourceFile$(path.join(homedir(), ".tsshrc"), (list, index) => executeCommandList$(list, history, index), 0, standardIO)
+ */
+export function sourceFile$(
+  filePath: string,
+  runList: SourceRunner,
+  lastAppendedIndex: number,
+  io: CommandIO
+): Observable<CommandResult> {
+  let historyIndex = lastAppendedIndex;
+  // Lines of a command whose end has not been read yet
+  let pending = "";
+
+  const collectCommand = (line: string): Observable<string> => {
+    pending = pending ? `${pending}\n${line}` : line;
+
+    if (isIncomplete(pending)) {
+      return EMPTY;
+    }
+
+    const command = pending;
+
+    pending = "";
+
+    return of(command);
+  };
+
+  const commands$ = concat(
+    readLines$(filePath).pipe(concatMap(line => collectCommand(line))),
+    // A command left open at the end of the file runs into its syntax error
+    defer(() => pending ? of(pending) : EMPTY)
+  ).pipe(
+    concatMap(command => defer(() => runList(parseCommandList(command), historyIndex))),
+    tap(result => {
+      historyIndex = result.newLastAppendedIndex ?? historyIndex;
+    }),
+    takeWhile(result => !interruptsList(result), true),
+    last(null, { exitCode: 0 } as CommandResult)
+  );
+
+  return executeReturnable$(() => commands$.pipe(
+    catchError(error => {
+      // The file cannot be read
+      if (error instanceof ScriptError) {
+        return write$(io.stderr, `${error.message}\n`).pipe(map(() => ({ exitCode: 1 })));
+      }
+
+      if (error instanceof SyntaxError) {
+        return write$(io.stderr, `${filePath}: ${error.message}\n`).pipe(map(() => ({ exitCode: 2 })));
+      }
+
+      return throwError(() => error);
+    }),
+    map(result => ({ ...result, newLastAppendedIndex: historyIndex }))
+  ));
+}
+
+/**
+ * Executes the source and . builtins.
+ * Supports: source FILE [arg...], . FILE [arg...]
+ *
+ * @param command - "source" or "."
+ * @param args - Command arguments (excluding the command itself)
+ * @param runList - Executes the file's commands
+ * @param lastAppendedIndex - History tracking index
+ * @param io - Streams of the builtin
+ * @returns Observable with the result of the file's last command
+ */
+export function executeSourceCommand$(
+  command: string,
+  args: string[],
+  runList: SourceRunner,
+  lastAppendedIndex: number,
+  io: CommandIO
+): Observable<CommandResult> {
+  const [file, ...parameters] = args;
+
+  if (file === undefined) {
+    return write$(io.stderr, `${command}: filename argument required\n`).pipe(
+      map(() => ({ exitCode: 2, newLastAppendedIndex: lastAppendedIndex }))
+    );
+  }
+
+  return defer(() => {
+    const callerParameters = getPositionalParameters();
+    let replaced = parameters.length > 0;
+    // Runs before the result reaches the next command, and on error or unsubscribe
+    const restore = () => {
+      if (replaced) {
+        replaced = false;
+        setPositionalParameters(callerParameters);
+      }
+    };
+
+    if (replaced) {
+      setPositionalParameters(parameters);
+    }
+
+    return sourceFile$(resolveSourcePath(file), runList, lastAppendedIndex, io).pipe(
+      tap(restore),
+      finalize(restore)
+    );
+  });
+}
+
+/**
+ * Finds the file for `source name`: a name with a "/" is used as is,
+ * otherwise the first regular file of that name in PATH, or else the
+ * name relative to the current directory.
+ */
+function resolveSourcePath(name: string): string {
+  if (name.includes("/")) {
+    return name;
+  }
+
+  const pathDirs = process.env.PATH?.split(path.delimiter) || [];
+
+  for (const dir of pathDirs) {
+    try {
+      if (statSync(path.join(dir, name)).isFile()) {
+        return path.join(dir, name);
+      }
+    } catch {}
+  }
+
+  return name;
+}
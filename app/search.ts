@@ -0,0 +1,213 @@
+/**
+ * Reverse History Search Module
+ *
+ * Incremental reverse search through the command history with Ctrl-R, as
+ * in bash, on top of the readline interface. The search takes over the
+ * terminal's keys while it runs and hands every other key to readline.
+ *
+ * Keys while searching:
+ * - Printable characters: Extend the search string and show the most recent
+ *   command containing it
+ * - Ctrl-R: Show the next older match
+ * - Backspace: Shorten the search string
+ * - Enter: Run the match
+ * - Ctrl-G, Escape: Give up and restore the line as it was
+ * - Any other key (arrows, Ctrl-A, Ctrl-C, ...): Keep the match on the line,
+ *   then act on the key as usual
+ *
+ * The search line shows `(reverse-i-search)`query': match`, or
+ * `(failed reverse-i-search)` when the query matches nothing older.
+ *
+ * Preferred commands, those run in the current directory, are searched
+ * first, newest first, and then the rest of the history.
+ */
+
+import type { Interface } from "node:readline";
+
+/**
+ * A key as decoded by readline's keypress events.
+ */
+export interface Key {
+  name?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+  sequence?: string;
+}
+
+export type KeypressListener = (text: string | undefined, key: Key | undefined) => void;
+
+/**
+ * Handles a key in place of the listeners it was taken from; forward hands
+ * a key on to them.
+ */
+export type KeypressInterceptor = (text: string | undefined, key: Key | undefined, forward: KeypressListener) => void;
+
+/**
+ * A search in progress: the query, the history indexes in the order they
+ * are searched, the position in that order of the match shown (-1 before
+ * the first match), and the line to restore if the search is given up.
+ */
+interface SearchState {
+  query: string;
+  order: number[];
+  position: number;
+  failed: boolean;
+  originalLine: string;
+}
+
+// The running search, or null while readline handles the keys
+let search: SearchState | null = null;
+
+/**
+ * Adds Ctrl-R reverse search to a readline interface reading the terminal.
+ *
+ * @param rl - Interface created with terminal output
+ * @param input - The interface's input stream
+ * @param getHistory - Returns the commands to search, oldest first
+ * @param isPreferred - Tells whether a command is searched before the others
+ */
+export function setupReverseSearch(
+  rl: Interface,
+  input: NodeJS.ReadStream,
+  getHistory: () => string[],
+  isPreferred: (command: string) => boolean
+): void {
+  // Keys reach readline only through forward, so a search can hold them back
+  interceptKeypress(input, (text, key, forward) => {
+    if (search) {
+      handleSearchKey(rl, search, getHistory(), text, key, forward);
+    } else if (key?.ctrl && key.name === "r") {
+      startSearch(rl, getHistory(), isPreferred);
+    } else {
+      forward(text, key);
+    }
+  });
+}
+
+/**
+ * Takes the keypress listeners a stream has and puts a handler in their
+ * place, so that keys reach them only when the handler forwards them. The
+ * line editing layers each take over the keys this way, in turn.
+ *
+ * @param input - The stream the keys come from
+ * @param handler - Handles every key, and forwards those it does not keep
+ * @returns The function forwarding a key to the listeners taken
+ *
+ * @example
+ * interceptKeypress(input, (text, key, forward) => {
+ *   if (key?.name !== "f1") {
+ *     forward(text, key);
+ *   }
+ * });
+ */
+export function interceptKeypress(input: NodeJS.ReadStream, handler: KeypressInterceptor): KeypressListener {
+  const listeners = input.listeners("keypress") as KeypressListener[];
+  const forward: KeypressListener = (text, key) => {
+    for (const listener of listeners) {
+      listener.call(input, text, key);
+    }
+  };
+
+  input.removeAllListeners("keypress");
+  input.on("keypress", (text: string | undefined, key: Key | undefined) => handler(text, key, forward));
+
+  return forward;
+}
+
+/**
+ * Tells whether a search is running, so that other key handlers leave the
+ * keys to it.
+ *
+ * @returns True while Ctrl-R searching
+ */
+export function isSearching(): boolean {
+  return search !== null;
+}
+
+function startSearch(rl: Interface, history: string[], isPreferred: (command: string) => boolean): void {
+  const preferred: number[] = [];
+  const others: number[] = [];
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    (isPreferred(history[i]) ? preferred : others).push(i);
+  }
+
+  search = { query: "", order: [...preferred, ...others], position: -1, failed: false, originalLine: rl.line };
+
+  // Empty readline's line so it redraws cleanly when the search ends
+  rl.write(null, { ctrl: true, name: "e" });
+  rl.write(null, { ctrl: true, name: "u" });
+  drawSearch(search, history);
+}
+
+function handleSearchKey(
+  rl: Interface,
+  state: SearchState,
+  history: string[],
+  text: string | undefined,
+  key: Key | undefined,
+  forward: KeypressListener
+): void {
+  const match = state.position >= 0 ? history[state.order[state.position]] : state.originalLine;
+
+  if (key?.ctrl && key.name === "r") {
+    findMatch(state, history, state.position + 1);
+  } else if (key?.name === "backspace") {
+    state.query = state.query.slice(0, -1);
+    findMatch(state, history, 0);
+  } else if ((key?.ctrl && key.name === "g") || key?.name === "escape") {
+    endSearch(rl, state.originalLine);
+
+    return;
+  } else if (text && text.length === 1 && text >= " " && !key?.ctrl && !key?.meta) {
+    state.query += text;
+    findMatch(state, history, Math.max(state.position, 0));
+  } else {
+    endSearch(rl, match);
+    forward(text, key);
+
+    return;
+  }
+
+  drawSearch(state, history);
+}
+
+/**
+ * Moves to the first command at or after a position of the search order
+ * that contains the query; the current match stays when there is none.
+ */
+function findMatch(state: SearchState, history: string[], start: number): void {
+  for (let i = start; i < state.order.length; i++) {
+    if (history[state.order[i]].includes(state.query)) {
+      state.position = i;
+      state.failed = false;
+
+      return;
+    }
+  }
+
+  state.failed = true;
+}
+
+/**
+ * Shows the search line, cut to the terminal's width so it stays on one
+ * row, with the cursor at the start of the matched text.
+ */
+function drawSearch(state: SearchState, history: string[]): void {
+  const match = (state.position >= 0 ? history[state.order[state.position]] : "").replace(/\n/g, " ");
+  const prefix = `(${state.failed ? "failed " : ""}reverse-i-search)\`${state.query}': `;
+  const line = (prefix + match).slice(0, Math.max((process.stdout.columns || 80) - 1, prefix.length));
+  const position = Math.min(prefix.length + Math.max(match.indexOf(state.query), 0), line.length);
+
+  process.stdout.write(`\r\x1b[K${line}\r${position > 0 ? `\x1b[${position}C` : ""}`);
+}
+
+/**
+ * Leaves the search with a line for readline to show and edit.
+ */
+function endSearch(rl: Interface, line: string): void {
+  search = null;
+  process.stdout.write("\r\x1b[K");
+  rl.prompt(true);
+  rl.write(line);
+}
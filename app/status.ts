@@ -0,0 +1,80 @@
+/**
+ * Exit Status Module
+ *
+ * Tracks the exit status of the most recently executed command, exposed to
+ * scripts as the special parameter `$?`, and the statuses of every command
+ * of the last pipeline, exposed as the `PIPESTATUS` array.
+ *
+ * Conventions follow POSIX shells:
+ * - 0 means success, any other value means failure
+ * - 126: command found but not executable
+ * - 127: command not found
+ * - 128 + N: process terminated by signal N
+ */
+
+import { constants } from "node:os";
+
+// Status of the last executed command
+let lastExitStatus = 0;
+// Statuses of the commands of the last pipeline, left to right
+let pipeStatus: number[] = [0];
+
+/**
+ * Returns the exit status of the most recently executed command.
+ *
+ * @returns The value of `$?`
+ */
+export function getLastExitStatus(): number {
+  return lastExitStatus;
+}
+
+/**
+ * Records the exit status of the most recently executed command.
+ *
+ * @param status - Exit status to store as `$?`
+ */
+export function setLastExitStatus(status: number): void {
+  lastExitStatus = status;
+}
+
+/**
+ * Returns the statuses of the commands of the last pipeline.
+ *
+ * @returns The values of `${PIPESTATUS[@]}`
+ */
+export function getPipeStatus(): number[] {
+  return pipeStatus;
+}
+
+/**
+ * Records the statuses of the commands of a pipeline that just finished.
+ * A simple command counts as a pipeline of one.
+ *
+ * @param statuses - One exit status per pipeline command, left to right
+ */
+export function setPipeStatus(statuses: number[]): void {
+  pipeStatus = statuses;
+}
+
+/**
+ * Converts the arguments of a child process "close"/"exit" event into a shell exit status.
+ *
+ * @param code - Exit code reported by the child, or null if it was killed
+ * @param signal - Signal that terminated the child, if any
+ * @returns Exit status in the 0-255 range
+ *
+ * @example
+ * toExitStatus(0, null)         // 0
+ * toExitStatus(null, "SIGINT")  // 130
+ */
+export function toExitStatus(code: number | null, signal: NodeJS.Signals | null): number {
+  if (code !== null) {
+    return code;
+  }
+
+  if (signal) {
+    return 128 + (constants.signals[signal] ?? 0);
+  }
+
+  return 1;
+}
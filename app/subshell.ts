@@ -0,0 +1,187 @@
+/**
+ * Subshell Module
+ *
+ * Keeps the changes a subshell makes to the shell's state from reaching the
+ * shell. Subshells run in the shell process itself, so instead of working
+ * on a copy of the state as a forked shell would, they work on the shell's
+ * own state, and a copy taken beforehand is put back once they finish.
+ *
+ * State kept local to a subshell:
+ * - Variables, exported or not, arrays and the local scopes of functions
+ * - Functions and aliases
+ * - shopt and set options
+ * - Positional parameters
+ * - The working directory
+ *
+ * Used for ( list ) and for command substitutions, whose output is all the
+ * shell sees of them.
+ *
+ * Background jobs and pipeline stages run alongside the shell, so their
+ * state cannot simply be put back when they finish. Each one keeps its own
+ * copy in a context instead: whenever the job's commands run, the shell's state is set aside
+ * and the job's put in its place, and swapped back once they have to wait.
+ */
+
+import { Observable, defer } from "rxjs";
+import { tap, finalize } from "rxjs/operators";
+import { snapshotVariables, restoreVariables } from "./variables";
+import type { VariableSnapshot } from "./variables";
+import { snapshotFunctions, restoreFunctions } from "./functions";
+import { snapshotAliases, restoreAliases } from "./aliases";
+import { snapshotOptions, restoreOptions } from "./options";
+import { getPositionalParameters, setPositionalParameters } from "./parameters";
+import type { FunctionDefinition } from "./parser";
+
+/**
+ * A copy of everything a subshell keeps to itself.
+ */
+export interface ShellState {
+  variables: VariableSnapshot;
+  functions: Map<string, FunctionDefinition>;
+  aliases: Map<string, string>;
+  options: Map<string, boolean>;
+  parameters: string[];
+  cwd: string;
+}
+
+/**
+ * The state of a background job or pipeline stage, while another is in use.
+ */
+export interface SubshellContext {
+  state: ShellState;
+}
+
+// The context whose state is in use, or null for the shell's own
+let activeContext: SubshellContext | null = null;
+
+/**
+ * Copies the shell's state.
+ *
+ * @returns A snapshot for restoreShellState
+ */
+export function saveShellState(): ShellState {
+  return {
+    variables: snapshotVariables(),
+    functions: snapshotFunctions(),
+    aliases: snapshotAliases(),
+    options: snapshotOptions(),
+    parameters: getPositionalParameters(),
+    cwd: process.cwd()
+  };
+}
+
+/**
+ * Puts back the shell's state as it was when a snapshot was taken.
+ *
+ * @param state - Snapshot from saveShellState
+ */
+export function restoreShellState(state: ShellState): void {
+  restoreVariables(state.variables);
+  restoreFunctions(state.functions);
+  restoreAliases(state.aliases);
+  restoreOptions(state.options);
+  setPositionalParameters(state.parameters);
+
+  try {
+    process.chdir(state.cwd);
+  } catch {
+    // The directory was removed meanwhile; stay where the subshell left off
+  }
+}
+
+/**
+ * Runs commands as a subshell: the shell's state is copied when they
+ * start and put back when they finish, fail or are unsubscribed.
+ *
+ * @param run - Runs the commands; emits once, when they have finished
+ * @returns Observable that emits what run emits, once the state is back
+ *
+ * @example
+ * // x=$(y=5; echo hi) leaves y unset
+ * runInSubshell$(() => executeCommandList$(parseCommandList("y=5; echo hi"), history, 0, capture.io))
+ */
+export function runInSubshell$<T>(run: () => Observable<T>): Observable<T> {
+  return defer(() => {
+    const state = saveShellState();
+    let running = true;
+    // Runs before the result reaches the next command, and on error or unsubscribe
+    const restore = () => {
+      if (running) {
+        running = false;
+        restoreShellState(state);
+      }
+    };
+
+    return run().pipe(
+      tap(restore),
+      finalize(restore)
+    );
+  });
+}
+
+/**
+ * Starts a context with a copy of the state in use.
+ *
+ * @returns A context for withinSubshellContext$
+ */
+export function createSubshellContext(): SubshellContext {
+  return { state: saveShellState() };
+}
+
+/**
+ * Returns the context whose state is in use, so that code resuming later
+ * can return to it.
+ *
+ * @returns The active context, or undefined for the shell's own state
+ */
+export function getActiveSubshellContext(): SubshellContext | undefined {
+  return activeContext ?? undefined;
+}
+
+/**
+ * Runs commands in a context's state: it is swapped in while they start and
+ * whenever they emit, fail or complete, and swapped out in between.
+ *
+ * @param context - The context, or undefined to run in the state in use
+ * @param run - Runs the commands
+ * @returns Observable that mirrors the commands
+ */
+export function withinSubshellContext$<T>(context: SubshellContext | undefined, run: () => Observable<T>): Observable<T> {
+  if (!context) {
+    return defer(run);
+  }
+
+  return new Observable<T>(subscriber => {
+    const subscription = enterContext(context, () => defer(run).subscribe({
+      next: value => enterContext(context, () => subscriber.next(value)),
+      error: error => enterContext(context, () => subscriber.error(error)),
+      complete: () => enterContext(context, () => subscriber.complete())
+    }));
+
+    return () => enterContext(context, () => subscription.unsubscribe());
+  });
+}
+
+/**
+ * Calls a function with a context's state in use, and saves what it
+ * changed back into the context.
+ */
+function enterContext<T>(context: SubshellContext, action: () => T): T {
+  if (activeContext === context) {
+    return action();
+  }
+
+  const outerContext = activeContext;
+  const outerState = saveShellState();
+
+  restoreShellState(context.state);
+  activeContext = context;
+
+  try {
+    return action();
+  } finally {
+    context.state = saveShellState();
+    restoreShellState(outerState);
+    activeContext = outerContext;
+  }
+}
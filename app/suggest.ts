@@ -0,0 +1,351 @@
+/**
+ * Autosuggestion Module
+ *
+ * Fish-style autosuggestions on top of the readline interface: while a line
+ * is typed, the rest of the most recent history entry starting with it is
+ * shown in dim text after the cursor. Like the reverse search and the line
+ * editor, it takes over the terminal's keys, and draws the suggestion once
+ * every key has been handled.
+ *
+ * Keys:
+ * - Right-arrow, End: Accept the suggestion when the cursor is at the end
+ *   of the line, and move as usual otherwise
+ * - Any other key: Acts as usual; the suggestion follows the new line
+ *
+ * Suggestions:
+ * - The most recent history entry that starts with the line and is longer
+ *   than it; entries of more than one line are never suggested
+ * - Without one, what tab would complete the last word to, when it can
+ *   only be completed one way (see suggestCompletion)
+ * - None for a blank line, with the cursor before the end of the line, or
+ *   during a Ctrl-R search
+ * - The dim text is cut to fit the cursor's row so it never wraps; the
+ *   whole suggestion is accepted
+ *
+ * History index:
+ * - The distinct commands of the history are kept sorted, so those
+ *   starting with a prefix form one range, found by binary search. A
+ *   segment tree over the sorted commands gives the most recently run of
+ *   a range in O(log n), which keeps lookups instant with 100k entries
+ * - Commands first run after the sort are kept aside and scanned, until
+ *   there are MERGE_THRESHOLD of them and they are sorted in
+ * - Entries are numbered from the start of the session, so that entries
+ *   HISTSIZE trims away can be told apart; any other change to the
+ *   history (history -c, -d, -r, erasedups) rebuilds the index on the
+ *   next lookup
+ */
+
+import type { Interface } from "node:readline";
+import { getHistoryChanges } from "./history";
+import { refreshHighlighting } from "./highlight";
+import { isSearching, interceptKeypress } from "./search";
+import type { Key } from "./search";
+
+/**
+ * The index of a history list: its distinct commands in code unit order,
+ * the number of the latest entry of each, a segment tree of the position
+ * in commands of the latest of each range, and the commands not sorted
+ * in yet. Entries are numbered by position plus the entries dropped
+ * before them.
+ */
+interface PrefixIndex {
+  history: string[];
+  edits: number;
+  // Number just past the last entry indexed
+  end: number;
+  commands: string[];
+  latest: number[];
+  tree: Int32Array;
+  size: number;
+  unsorted: string[];
+  // Number of the latest entry of every command, sorted or not
+  entries: Map<string, number>;
+}
+
+/**
+ * The interface suggestions are drawn for, and the suggestion shown.
+ */
+interface SuggestionState {
+  rl: Interface;
+  getHistory: () => string[];
+  fallback: (line: string) => string | null;
+  shown: string | null;
+}
+
+// Unsorted commands that make the index sort them in
+const MERGE_THRESHOLD = 512;
+
+let state: SuggestionState | null = null;
+let index: PrefixIndex | null = null;
+
+/**
+ * Adds autosuggestions to a readline interface reading the terminal.
+ *
+ * @param rl - Interface created with terminal output
+ * @param input - The interface's input stream
+ * @param getHistory - Returns the commands to suggest from, oldest first
+ * @param fallback - Suggests the rest of a line the history has nothing for
+ */
+export function setupAutosuggestions(
+  rl: Interface,
+  input: NodeJS.ReadStream,
+  getHistory: () => string[],
+  fallback: (line: string) => string | null
+): void {
+  const current: SuggestionState = { rl, getHistory, fallback, shown: null };
+
+  state = current;
+
+  // Keys reach the editor only through forward, so a suggestion can be cleared first
+  interceptKeypress(input, (text, key, forward) => {
+    const suggestion = current.shown;
+
+    clearSuggestion();
+
+    if (suggestion && isAcceptKey(key) && rl.cursor === rl.line.length) {
+      rl.write(suggestion);
+      refreshHighlighting();
+    } else {
+      forward(text, key);
+    }
+
+    // Completions may list the matches below the line; the completer draws the suggestion itself
+    if (key?.name !== "tab") {
+      renderSuggestion();
+    }
+  });
+}
+
+/**
+ * Draws the suggestion for the line as it is now. Called after every key
+ * but tab, and by the completer once it has inserted a completion.
+ */
+export function renderSuggestion(): void {
+  if (!state || state.shown !== null || isSearching()) {
+    return;
+  }
+
+  const { rl } = state;
+
+  if (rl.cursor !== rl.line.length || rl.line.trim() === "") {
+    return;
+  }
+
+  const suggestion = findHistorySuggestion(state.getHistory(), rl.line) ?? state.fallback(rl.line);
+  const room = (process.stdout.columns || 80) - rl.getCursorPos().cols - 1;
+
+  if (!suggestion || room <= 0) {
+    return;
+  }
+
+  const text = suggestion.slice(0, room).replace(/[\x00-\x1f\x7f]/g, " ");
+
+  state.shown = suggestion;
+  process.stdout.write(`\x1b[2m${text}\x1b[0m\x1b[${text.length}D`);
+}
+
+/**
+ * Finds the most recent history entry that continues a line.
+ *
+ * @param history - Commands, oldest first
+ * @param line - The line typed so far
+ * @returns The rest of the entry, or null if no entry continues the line
+ *
+ * @example
+ * findHistorySuggestion(["git status", "git push", "ls"], "git s")   // "tatus"
+ */
+export function findHistorySuggestion(history: string[], line: string): string | null {
+  const current = updateIndex(history);
+  const { dropped } = getHistoryChanges(history);
+  // The line itself is not a suggestion
+  const lower = partitionPoint(current.commands, command => command <= line);
+  const upper = partitionPoint(current.commands, command => command < line || command.startsWith(line));
+  let best: string | null = null;
+  let bestEntry = -1;
+
+  for (let slot = queryTree(current, lower, upper); slot >= 0; slot = queryTree(current, lower, upper)) {
+    if (current.latest[slot] >= dropped) {
+      best = current.commands[slot];
+      bestEntry = current.latest[slot];
+
+      break;
+    }
+
+    // Every entry of the command was trimmed away
+    current.entries.delete(current.commands[slot]);
+    updateTree(current, slot, -1);
+  }
+
+  for (const command of current.unsorted) {
+    const entry = current.entries.get(command) ?? -1;
+
+    if (entry > bestEntry && entry >= dropped && command.length > line.length && command.startsWith(line)) {
+      best = command;
+      bestEntry = entry;
+    }
+  }
+
+  return best === null ? null : best.slice(line.length);
+}
+
+/**
+ * Hides the suggestion shown, which is always after the cursor on its row.
+ */
+function clearSuggestion(): void {
+  if (state?.shown) {
+    state.shown = null;
+    process.stdout.write("\x1b[K");
+  }
+}
+
+function isAcceptKey(key: Key | undefined): boolean {
+  return (key?.name === "right" || key?.name === "end") && !key.ctrl && !key.meta;
+}
+
+/**
+ * Brings the index up to date with the history: new entries are added,
+ * and an edited or different list is indexed again from scratch.
+ */
+function updateIndex(history: string[]): PrefixIndex {
+  const { edits, dropped } = getHistoryChanges(history);
+
+  if (!index || index.history !== history || index.edits !== edits) {
+    index = buildIndex(history, edits, dropped);
+  }
+
+  for (let entry = Math.max(index.end, dropped); entry < dropped + history.length; entry++) {
+    addEntry(index, history[entry - dropped], entry);
+  }
+
+  index.end = dropped + history.length;
+
+  return index;
+}
+
+function buildIndex(history: string[], edits: number, dropped: number): PrefixIndex {
+  const entries = new Map<string, number>();
+
+  history.forEach((command, position) => {
+    if (!command.includes("\n")) {
+      entries.set(command, dropped + position);
+    }
+  });
+
+  return sortIndex({
+    history,
+    edits,
+    end: dropped + history.length,
+    commands: [],
+    latest: [],
+    tree: new Int32Array(0),
+    size: 0,
+    unsorted: [],
+    entries
+  });
+}
+
+/**
+ * Sorts every command into the index and builds its segment tree.
+ */
+function sortIndex(current: PrefixIndex): PrefixIndex {
+  current.commands = [...current.entries.keys()].sort();
+  current.latest = current.commands.map(command => current.entries.get(command)!);
+  current.unsorted = [];
+  current.size = 1;
+
+  while (current.size < current.commands.length) {
+    current.size *= 2;
+  }
+
+  current.tree = new Int32Array(2 * current.size).fill(-1);
+  current.commands.forEach((_, slot) => {
+    current.tree[current.size + slot] = slot;
+  });
+
+  for (let node = current.size - 1; node >= 1; node--) {
+    current.tree[node] = laterSlot(current, current.tree[2 * node], current.tree[2 * node + 1]);
+  }
+
+  return current;
+}
+
+function addEntry(current: PrefixIndex, command: string, entry: number): void {
+  if (command.includes("\n")) {
+    return;
+  }
+
+  const slot = partitionPoint(current.commands, sorted => sorted < command);
+  const known = current.entries.has(command);
+
+  current.entries.set(command, entry);
+
+  if (current.commands[slot] === command) {
+    updateTree(current, slot, entry);
+  } else if (!known) {
+    current.unsorted.push(command);
+  }
+
+  if (current.unsorted.length >= MERGE_THRESHOLD) {
+    sortIndex(current);
+  }
+}
+
+/**
+ * Finds the slot of the latest command in commands[lower, upper), or -1.
+ */
+function queryTree(current: PrefixIndex, lower: number, upper: number): number {
+  let best = -1;
+
+  for (let left = lower + current.size, right = upper + current.size; left < right; left >>= 1, right >>= 1) {
+    if (left & 1) {
+      best = laterSlot(current, best, current.tree[left++]);
+    }
+
+    if (right & 1) {
+      best = laterSlot(current, best, current.tree[--right]);
+    }
+  }
+
+  return best >= 0 && current.latest[best] >= 0 ? best : -1;
+}
+
+function updateTree(current: PrefixIndex, slot: number, entry: number): void {
+  current.latest[slot] = entry;
+
+  for (let node = (current.size + slot) >> 1; node >= 1; node >>= 1) {
+    current.tree[node] = laterSlot(current, current.tree[2 * node], current.tree[2 * node + 1]);
+  }
+}
+
+function laterSlot(current: PrefixIndex, a: number, b: number): number {
+  if (a < 0) {
+    return b;
+  }
+
+  if (b < 0) {
+    return a;
+  }
+
+  return current.latest[a] >= current.latest[b] ? a : b;
+}
+
+/**
+ * Finds the first index of a sorted array where a predicate, true for a
+ * leading run of the items, stops holding.
+ */
+function partitionPoint(items: string[], predicate: (item: string) => boolean): number {
+  let low = 0;
+  let high = items.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+
+    if (predicate(items[middle])) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
@@ -0,0 +1,379 @@
+/**
+ * Shell Variables Module
+ *
+ * Storage for shell and environment variables plus the export/unset builtins.
+ *
+ * Storage model:
+ * - Exported variables live in process.env, so child processes inherit them
+ * - Unexported shell variables live in a private map
+ * - Assigning to an exported name keeps it exported, as in bash
+ * - Arrays, set with NAME=(word...), live in their own map; their first
+ *   element doubles as their plain value
+ * - Each running function has a scope recording the variables it made
+ *   local; their previous values come back when the function returns
+ *
+ * Commands supported:
+ * - export: List exported variables
+ * - export NAME[=value]...: Mark variables for export
+ * - unset NAME...: Remove variables
+ * - local NAME[=value]...: Make variables local to the running function
+ * - NAME=value: Set a shell variable
+ * - NAME=(word...): Set an array variable
+ * - NAME=value cmd: Set a variable in cmd's environment only
+ */
+
+import { Observable } from "rxjs";
+import { map } from "rxjs/operators";
+import { writeLines$ } from "./io";
+import type { CommandIO } from "./io";
+
+// Unexported shell variables
+const shellVariables = new Map<string, string>();
+
+// Array variables, such as COMPREPLY
+const arrayVariables = new Map<string, string[]>();
+
+// A variable's state before a function made it local
+interface SavedVariable {
+  value: string | undefined;
+  exported: boolean;
+}
+
+// Local scopes of the running functions, innermost last
+const scopes: Map<string, SavedVariable>[] = [];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ASSIGNMENT_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+
+/**
+ * Checks whether a string is a valid variable name.
+ *
+ * @param name - Candidate variable name
+ * @returns True if the name can be assigned to
+ */
+export function isValidName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+/**
+ * Checks whether a word has the form NAME=value.
+ *
+ * @param word - Command word to inspect
+ * @returns True if the word is a variable assignment
+ */
+export function isAssignment(word: string): boolean {
+  return ASSIGNMENT_PATTERN.test(word);
+}
+
+/**
+ * Looks up a variable, preferring shell variables over the environment.
+ *
+ * @param name - Variable name
+ * @returns The variable's value, or undefined if it is unset
+ */
+export function getVariable(name: string): string | undefined {
+  return arrayVariables.get(name)?.[0] ?? shellVariables.get(name) ?? process.env[name];
+}
+
+/**
+ * Looks up an array variable.
+ *
+ * @param name - Variable name
+ * @returns The array's elements, or undefined if name is not an array
+ */
+export function getArray(name: string): string[] | undefined {
+  return arrayVariables.get(name);
+}
+
+/**
+ * Assigns an array variable, replacing any variable of the same name.
+ *
+ * @param name - Variable name
+ * @param values - New elements
+ */
+export function setArray(name: string, values: string[]): void {
+  unsetVariable(name);
+  arrayVariables.set(name, values);
+}
+
+/**
+ * Lists the names of all set variables.
+ *
+ * @returns Shell, array and environment variable names, sorted
+ */
+export function getVariableNames(): string[] {
+  return [...new Set([...shellVariables.keys(), ...arrayVariables.keys(), ...Object.keys(process.env)])].sort();
+}
+
+/**
+ * Assigns a variable. Names that are already exported stay exported.
+ *
+ * @param name - Variable name
+ * @param value - New value
+ */
+export function setVariable(name: string, value: string): void {
+  const array = arrayVariables.get(name);
+
+  // NAME=value on an array sets its first element
+  if (array) {
+    array[0] = value;
+  } else if (name in process.env) {
+    process.env[name] = value;
+  } else {
+    shellVariables.set(name, value);
+  }
+}
+
+/**
+ * Marks a variable for export, optionally assigning it first.
+ *
+ * @param name - Variable name
+ * @param value - New value, or undefined to export the current value
+ */
+export function exportVariable(name: string, value?: string): void {
+  const current = value ?? shellVariables.get(name) ?? process.env[name] ?? "";
+
+  shellVariables.delete(name);
+  process.env[name] = current;
+}
+
+/**
+ * Removes a variable from both the shell and the environment.
+ *
+ * @param name - Variable name
+ */
+export function unsetVariable(name: string): void {
+  shellVariables.delete(name);
+  arrayVariables.delete(name);
+  delete process.env[name];
+}
+
+/**
+ * Opens the local scope of a function call.
+ */
+export function pushScope(): void {
+  scopes.push(new Map());
+}
+
+/**
+ * Closes the innermost local scope, restoring every variable made local
+ * in it to its value from before the call.
+ */
+export function popScope(): void {
+  const scope = scopes.pop();
+
+  for (const [name, saved] of scope ?? []) {
+    unsetVariable(name);
+
+    if (saved.value === undefined) {
+      continue;
+    }
+
+    if (saved.exported) {
+      process.env[name] = saved.value;
+    } else {
+      shellVariables.set(name, saved.value);
+    }
+  }
+}
+
+/**
+ * Makes a variable local to the innermost scope, optionally assigning it.
+ * A local without a value starts out unset.
+ *
+ * @param name - Variable name
+ * @param value - Initial value
+ * @returns False when no function is running
+ */
+export function declareLocal(name: string, value?: string): boolean {
+  const scope = scopes[scopes.length - 1];
+
+  if (!scope) {
+    return false;
+  }
+
+  if (!scope.has(name)) {
+    scope.set(name, { value: getVariable(name), exported: name in process.env });
+    unsetVariable(name);
+  }
+
+  if (value !== undefined) {
+    setVariable(name, value);
+  }
+
+  return true;
+}
+
+/**
+ * A copy of every variable, exported or not, and of the local scopes of
+ * the running functions.
+ */
+export interface VariableSnapshot {
+  shell: Map<string, string>;
+  arrays: Map<string, string[]>;
+  environment: NodeJS.ProcessEnv;
+  scopes: Map<string, SavedVariable>[];
+}
+
+/**
+ * Copies the variables, so that a subshell's changes can be undone.
+ *
+ * @returns A snapshot for restoreVariables
+ */
+export function snapshotVariables(): VariableSnapshot {
+  return {
+    shell: new Map(shellVariables),
+    arrays: new Map([...arrayVariables].map(([name, values]) => [name, [...values]])),
+    environment: { ...process.env },
+    scopes: scopes.map(scope => new Map(scope))
+  };
+}
+
+/**
+ * Puts back the variables as they were when a snapshot was taken.
+ *
+ * @param snapshot - Snapshot from snapshotVariables
+ */
+export function restoreVariables(snapshot: VariableSnapshot): void {
+  shellVariables.clear();
+  snapshot.shell.forEach((value, name) => shellVariables.set(name, value));
+  arrayVariables.clear();
+  snapshot.arrays.forEach((values, name) => arrayVariables.set(name, [...values]));
+
+  for (const name of Object.keys(process.env)) {
+    if (!(name in snapshot.environment)) {
+      delete process.env[name];
+    }
+  }
+
+  Object.assign(process.env, snapshot.environment);
+  scopes.splice(0, scopes.length, ...snapshot.scopes.map(scope => new Map(scope)));
+}
+
+/**
+ * Separates leading NAME=value words from the rest of a command.
+ *
+ * @param parts - Expanded command words
+ * @returns The assignments and the remaining command words
+ *
+ * @example
+ * splitAssignments(["CC=clang", "make", "all"])
+ * // Returns: { assignments: { CC: "clang" }, args: ["make", "all"] }
+ */
+export function splitAssignments(parts: string[]): { assignments: Record<string, string>, args: string[] } {
+  const assignments: Record<string, string> = {};
+  let i = 0;
+
+  while (i < parts.length && isAssignment(parts[i])) {
+    const separator = parts[i].indexOf("=");
+
+    assignments[parts[i].slice(0, separator)] = parts[i].slice(separator + 1);
+    i++;
+  }
+
+  return { assignments, args: parts.slice(i) };
+}
+
+/**
+ * Builds the environment for a child process, layering one-shot
+ * assignments from a `NAME=value cmd` prefix over the exported variables.
+ *
+ * @param assignments - Prefix assignments for this command only
+ * @returns Environment to pass to spawn
+ */
+export function buildEnvironment(assignments: Record<string, string>): NodeJS.ProcessEnv {
+  return { ...process.env, ...assignments };
+}
+
+/**
+ * Executes the export builtin.
+ * Supports: export, export -p, export NAME, export NAME=value
+ *
+ * @param args - Command arguments (excluding 'export' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeExportCommand$(args: string[], io: CommandIO): Observable<number> {
+  const names = args.filter(arg => arg !== "-p");
+
+  if (names.length === 0) {
+    // List exported variables in a form that can be re-read by the shell
+    const lines = Object.keys(process.env)
+      .sort()
+      .map(name => `declare -x ${name}="${(process.env[name] ?? "").replace(/(["\\$`])/g, "\\$1")}"\n`);
+
+    return writeLines$(io.stdout, lines).pipe(map(() => 0));
+  }
+
+  const errors: string[] = [];
+
+  for (const arg of names) {
+    const separator = arg.indexOf("=");
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+
+    if (!isValidName(name)) {
+      errors.push(`export: \`${arg}': not a valid identifier\n`);
+
+      continue;
+    }
+
+    exportVariable(name, separator === -1 ? undefined : arg.slice(separator + 1));
+  }
+
+  return writeLines$(io.stderr, errors).pipe(map(() => errors.length > 0 ? 1 : 0));
+}
+
+/**
+ * Executes the unset builtin.
+ * Supports: unset NAME..., unset -v NAME...
+ *
+ * @param args - Command arguments (excluding 'unset' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeUnsetCommand$(args: string[], io: CommandIO): Observable<number> {
+  const errors: string[] = [];
+
+  for (const name of args.filter(arg => arg !== "-v")) {
+    if (!isValidName(name)) {
+      errors.push(`unset: \`${name}': not a valid identifier\n`);
+
+      continue;
+    }
+
+    unsetVariable(name);
+  }
+
+  return writeLines$(io.stderr, errors).pipe(map(() => errors.length > 0 ? 1 : 0));
+}
+
+/**
+ * Executes the local builtin.
+ * Supports: local NAME..., local NAME=value...
+ *
+ * @param args - Command arguments (excluding 'local' itself)
+ * @param io - Streams of the builtin
+ * @returns Observable with the exit status
+ */
+export function executeLocalCommand$(args: string[], io: CommandIO): Observable<number> {
+  const errors: string[] = [];
+
+  for (const arg of args) {
+    const separator = arg.indexOf("=");
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+
+    if (!isValidName(name)) {
+      errors.push(`local: \`${arg}': not a valid identifier\n`);
+
+      continue;
+    }
+
+    if (!declareLocal(name, separator === -1 ? undefined : arg.slice(separator + 1))) {
+      errors.push("local: can only be used in a function\n");
+
+      break;
+    }
+  }
+
+  return writeLines$(io.stderr, errors).pipe(map(() => errors.length > 0 ? 1 : 0));
+}